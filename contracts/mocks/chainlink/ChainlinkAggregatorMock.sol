@@ -0,0 +1,45 @@
+// solhint-disable
+
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity 0.8.10;
+
+import "../../stats/ChainlinkTokenPairPriceFeed/IChainlinkAggregator.sol";
+
+/// Price feed with a settable answer, standing in for a Chainlink aggregator such as ETH/USD
+contract ChainlinkAggregatorMock is IChainlinkAggregator {
+    uint8 public immutable override decimals;
+
+    int256 private answer;
+    uint80 private roundId;
+    uint256 private updatedAt;
+
+    constructor(uint8 _decimals, int256 initialAnswer) {
+        decimals = _decimals;
+        setAnswer(initialAnswer);
+    }
+
+    /// @notice MOCK ONLY
+    /// @dev Starts a new round with the given answer
+    /// @param _answer Price of the pair, expressed in `decimals` precision
+    function setAnswer(int256 _answer) public {
+        answer = _answer;
+        roundId += 1;
+        updatedAt = block.timestamp;
+    }
+
+    function latestRoundData()
+        external
+        view
+        override
+        returns (
+            uint80,
+            int256,
+            uint256,
+            uint256,
+            uint80
+        )
+    {
+        return (roundId, answer, updatedAt, updatedAt, roundId);
+    }
+}
@@ -43,6 +43,24 @@ const TEST_ACCOUNTS_KEYS = [
   "0x35ed970f932d0e41f4bd7e1e95ca44a0229c73408f9b6f9cf4f949f3699599cc"
 ];
 
+// Contracts which the SDK connects to via `connect()`, see tempus-sdk/tempus/ContractLoader.ts
+const SDK_CONTRACTS = [
+  "TempusController",
+  "ITempusPool",
+  "AaveTempusPool",
+  "CompoundTempusPool",
+  "LidoTempusPool",
+  "YearnTempusPool",
+  "PrincipalShare",
+  "YieldShare",
+  "TempusAMM",
+  "Stats",
+  "PositionManager",
+  "LeverageIncentivization",
+  "TempusToken",
+  "IERC20Metadata"
+];
+
 // This is a sample Hardhat task. To learn how to create your own go to
 // https://hardhat.org/guides/create-task.html
 task("accounts", "Prints the list of accounts", async (args: any, hre: any) => {
@@ -56,13 +74,24 @@ const config = {
   typechain: {
     outDir: './typechain-types',
   },
-  abiExporter: {
-    path: './abi-artifacts',
-    clear: false,
-    flat: true,
-    only: [],
-    spacing: 2
-  },
+  abiExporter: [
+    {
+      path: './abi-artifacts',
+      clear: false,
+      flat: true,
+      only: [],
+      spacing: 2
+    },
+    {
+      // ABIs bundled with the SDK, so it can connect to deployed contracts without hardhat
+      path: './tempus-sdk/abi',
+      runOnCompile: true,
+      clear: true,
+      flat: true,
+      only: SDK_CONTRACTS.map(name => `:${name}$`),
+      spacing: 2
+    }
+  ],
   solidity: {
     compilers: [
       {
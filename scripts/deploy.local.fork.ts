@@ -258,7 +258,7 @@ class DeployLocalForked {
       protocolDisplayName: params.protocolDisplayName,
       decimalsForUI: params.decimalsForUI,
       maturityDate: params.maturity,
-      startDate: await pool.startTime() as number,
+      startDate: Number(await pool.startTime()),
       tokenPrecision: params.tokenPrecision,
     });
   }
@@ -13,13 +13,15 @@ export async function generateDeployment(contract: Contract, contractName:string
   }
 
   const exportPath = join(exportDir, contractName + '.json');
+  const receipt = contract.deployTransaction && await contract.deployTransaction.wait();
   return new Promise((resolve, reject) => {
     writeFile(
       exportPath, 
       `${JSON.stringify(
         {
           address: contract.address,
-          abi: JSON.parse(contract.interface.format(FormatTypes.json) as string)
+          abi: JSON.parse(contract.interface.format(FormatTypes.json) as string),
+          ...(receipt ? { receipt: { blockNumber: receipt.blockNumber } } : {}) // same field as hardhat-deploy, for TempusController.deploymentBlock
         }, 
         null, 
         2
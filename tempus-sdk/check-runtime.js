@@ -0,0 +1,17 @@
+/**
+ * Requires the built SDK in a plain Node process and fails if it loaded hardhat,
+ * since the main entrypoint must only need ethers at runtime
+ */
+const sdk = require("./lib/index.js");
+
+const HARDHAT_MODULE = /[\\/]node_modules[\\/](hardhat|hardhat-deploy|@nomiclabs[\\/]hardhat-[\w-]+)[\\/]/;
+const loaded = Object.keys(require.cache).filter(path => HARDHAT_MODULE.test(path));
+if (loaded.length > 0) {
+  console.error("lib/index.js loaded hardhat modules:\n  " + loaded.slice(0, 10).join("\n  "));
+  process.exit(1);
+}
+if (typeof sdk.TempusPool?.connect !== "function" || typeof sdk.abiLoader !== "function") {
+  console.error("lib/index.js does not export the SDK");
+  process.exit(1);
+}
+console.log("SDK runtime loads without hardhat");
@@ -0,0 +1,29 @@
+/**
+ * Tempus Protocol SDK, which only needs ethers at runtime.
+ * Use `connect()` of the contract wrappers to work with deployed contracts,
+ * test helpers which require hardhat are in the `testing` subpath
+ */
+export * from "./tempus/ContractLoader";
+export * from "./tempus/TransactionBuilder";
+export * from "./tempus/Allowances";
+export * from "./tempus/TempusErrors";
+export * from "./tempus/PoolAdapter";
+export * from "./tempus/PoolShare";
+export * from "./tempus/TempusPool";
+export * from "./tempus/TempusController";
+export * from "./tempus/TempusAMM";
+export * from "./tempus/TempusPoolAMM";
+export * from "./tempus/TempusMarket";
+export * from "./tempus/Stats";
+export * from "./tempus/LegacyReturnTypes";
+export * from "./tempus/SharePricing";
+export * from "./tempus/ImpliedApr";
+export * from "./tempus/PositionManager";
+export * from "./tempus/LeverageIncentivization";
+export * from "./tempus/StakingRewardsModel";
+export * from "./tempus/TempusToken";
+export * from "./tempus/TempusTokenMinting";
+export * from "./tempus/TempusDeployments";
+export * from "./tempus/Rollover";
+export * from "./tempus/BatchRedemption";
+export * from "./tempus/NegativeYieldMonitor";
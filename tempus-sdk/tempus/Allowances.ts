@@ -0,0 +1,85 @@
+import { BigNumber, utils } from "ethers";
+import { Numberish } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { Signer, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
+import { IERC20 } from "@tempus-labs/utils/ts/token/IERC20";
+import { ERC20Ether } from "@tempus-labs/utils/ts/token/ERC20Ether";
+import { constructPermit } from "@tempus-labs/utils/ts/token/PermitUtils";
+import { TransactionBuilder } from "./TransactionBuilder";
+import { getRevertData } from "./TempusErrors";
+
+/**
+ * Signed EIP-2612 permit, as accepted by TempusController `erc20Permits` arguments
+ */
+export type ERC20PermitSignature = Awaited<ReturnType<typeof constructPermit>>;
+
+// Cached results of `supportsPermit`, keyed by chain id and token address
+const PERMIT_SUPPORT: { [chainAndToken:string]: Promise<boolean> } = {};
+
+/**
+ * @returns True if the token implements EIP-2612 `permit`, detected via `DOMAIN_SEPARATOR()`.
+ * Failed detections, eg network errors, are not cached
+ */
+export async function supportsPermit(token:IERC20): Promise<boolean> {
+  if (token instanceof ERC20Ether) {
+    return false;
+  }
+  const erc20 = token as ERC20;
+  const provider = erc20.contract.provider;
+  const key = (await provider.getNetwork()).chainId + ":" + erc20.address.toLowerCase();
+  if (!PERMIT_SUPPORT[key]) {
+    PERMIT_SUPPORT[key] = provider.call({
+      to: erc20.address,
+      data: utils.id("DOMAIN_SEPARATOR()").slice(0, 10)
+    }).then(
+      (result:string) => utils.hexDataLength(result) === 32,
+      (e:any) => {
+        if (isRevert(e)) {
+          return false; // no DOMAIN_SEPARATOR()
+        }
+        delete PERMIT_SUPPORT[key];
+        throw e;
+      }
+    );
+  }
+  return PERMIT_SUPPORT[key];
+}
+
+function isRevert(e:any): boolean {
+  return e?.code === utils.Logger.errors.CALL_EXCEPTION || getRevertData(e) !== undefined || /revert/i.test(e?.message ?? "");
+}
+
+/**
+ * @returns True if `spender` is already allowed to transfer `amount` tokens of `owner`
+ */
+export async function hasAllowance(token:IERC20, owner:Addressable, spender:Addressable, amount:Numberish): Promise<boolean> {
+  if (token instanceof ERC20Ether) {
+    return true; // Ether is sent as tx value
+  }
+  const erc20 = token as ERC20;
+  const allowance:BigNumber = await erc20.contract.allowance(addressOf(owner), addressOf(spender));
+  return allowance.gte(erc20.toBigNum(amount));
+}
+
+/**
+ * Authorizes a contract call which accepts EIP-2612 permits:
+ *  - nothing is needed if the existing allowance covers `amount`
+ *  - a permit is signed if the token supports it and `signer` is available
+ *  - otherwise an exact approval is added to the builder
+ * @param signer Signer of the permit, undefined when building unsigned transactions
+ * @returns Permit to pass to the contract call, if one was signed
+ */
+export async function permitOrApprove(
+  builder:TransactionBuilder,
+  token:IERC20,
+  signer:Signer|undefined,
+  spender:Addressable,
+  amount:Numberish,
+  deadline:Date
+): Promise<ERC20PermitSignature|undefined> {
+  if (signer && !await hasAllowance(token, builder.from, spender, amount) && await supportsPermit(token)) {
+    return constructPermit(token as ERC20, signer, spender, amount, deadline);
+  }
+  await builder.allow(token, spender, amount);
+  return undefined;
+}
@@ -0,0 +1,131 @@
+import { PopulatedTransaction } from "ethers";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { TempusPool } from "./TempusPool";
+import { TempusPoolAMM } from "./TempusPoolAMM";
+import { TempusMarket } from "./TempusMarket";
+import { TempusDeployments } from "./TempusDeployments";
+import { getPoolAdapter } from "./PoolAdapter";
+import { Stats } from "./Stats";
+
+/**
+ * Redemption of all TPS, TYS and LP tokens a user holds in a single matured pool
+ */
+export interface PoolRedemption {
+  pool:TempusPool;
+  amm?:TempusPoolAMM; // undefined for pools without an AMM
+  finalize:boolean; // true if the plan finalizes the pool before redeeming
+  toBackingToken:boolean; // false if BT was requested but the pool can only redeem to YBT
+  lpTokens:Decimal;
+  principals:Decimal; // TPS held, excluding the ones from the LP tokens
+  yields:Decimal; // TYS held, excluding the ones from the LP tokens. After maturity TYS can be redeemed without TPS
+  estimatedAmount:Decimal; // estimated BT or YBT received
+  transactions:PopulatedTransaction[]; // including the required approvals
+}
+
+/**
+ * Batched transactions for redeeming all matured positions of a user
+ */
+export interface RedemptionPlan {
+  user:string;
+  toBackingToken:boolean; // requested token, each redemption tells if its estimate is in BT or YBT
+  redemptions:PoolRedemption[];
+  notMatured:TempusPool[]; // pools where the user holds shares or LP tokens, which can not be redeemed yet
+  transactions:PopulatedTransaction[]; // transactions of all redemptions, in order
+}
+
+/**
+ * Plans the redemption of every matured pool where @param user holds TPS, TYS or LP tokens.
+ * LP tokens are exited and redeemed together with the shares via `exitAmmGivenLpAndRedeem`,
+ * other positions are redeemed with `redeemToBacking` or `redeemToYieldBearing`.
+ * Ether pools such as Lido do not support redemption to BT, those are always redeemed to YBT.
+ * Nothing is sent, the plan can be executed with `sendTransactions(signer, plan.transactions)`
+ * @param pools Pools to search, with or without their AMMs, or a network's address book
+ * @param stats Stats contract used for the estimates
+ * @param toBackingToken If true, redeem to BT where the pool supports it, otherwise to YBT
+ */
+export async function redeemAllMatured(
+  user:Addressable,
+  pools:(TempusMarket|TempusPool)[]|TempusDeployments,
+  stats:Stats,
+  toBackingToken:boolean = false
+): Promise<RedemptionPlan> {
+  const candidates:{ pool:TempusPool, amm?:TempusPoolAMM }[] = (pools instanceof TempusDeployments)
+    ? pools.markets.map(m => ({ pool: m.tempus, amm: m.amm })).concat(pools.unpairedPools.map(p => ({ pool: p, amm: undefined })))
+    : pools.map(p => (p instanceof TempusPool) ? { pool: p } : { pool: p.tempus, amm: p.amm });
+
+  const redemptions:PoolRedemption[] = [];
+  const notMatured:TempusPool[] = [];
+  for (const { pool, amm } of candidates) {
+    const [lpTokens, principals, yields] = await Promise.all([
+      amm ? amm.balanceOf(user) : decimal(0),
+      pool.principalShare.balanceOf(user),
+      pool.yieldShare.balanceOf(user)
+    ]);
+    if (lpTokens.isZero() && principals.isZero() && yields.isZero()) {
+      continue;
+    }
+    if (!await pool.matured()) {
+      notMatured.push(pool);
+      continue;
+    }
+    redemptions.push(await planRedemption(user, pool, amm, stats, lpTokens, principals, yields, toBackingToken));
+  }
+
+  return {
+    user: addressOf(user),
+    toBackingToken: toBackingToken,
+    redemptions: redemptions,
+    notMatured: notMatured,
+    transactions: redemptions.reduce((all, r) => all.concat(r.transactions), [] as PopulatedTransaction[])
+  };
+}
+
+async function planRedemption(
+  user:Addressable,
+  pool:TempusPool,
+  amm:TempusPoolAMM|undefined,
+  stats:Stats,
+  lpTokens:Decimal,
+  principals:Decimal,
+  yields:Decimal,
+  requestedBackingToken:boolean
+): Promise<PoolRedemption> {
+  const transactions:PopulatedTransaction[] = [];
+  // Ether can not be withdrawn from Lido, redeemToBacking reverts with LidoWithdrawNotSupported
+  const toBackingToken = requestedBackingToken && !getPoolAdapter(pool.type).acceptsEther;
+
+  const finalize = !await pool.isFinalized();
+  if (finalize) {
+    transactions.push(...await pool.populateFinalize(user));
+  }
+
+  const market:TempusMarket = { tempus: pool, amm: amm };
+  const controller = pool.controller;
+  let estimatedAmount:Decimal;
+  if (lpTokens.gt(0)) {
+    estimatedAmount = await stats.estimateExitAndRedeem(market, lpTokens.toString(), principals.toString(), yields.toString(), toBackingToken);
+    // after maturity all shares are redeemed as they are, so no leftover shares apply
+    transactions.push(...await controller.populateExitAmmGivenLpAndRedeem(
+      market, user, lpTokens.toString(), principals.toString(), yields.toString(), toBackingToken, /*maxLeftoverShares*/0
+    ));
+  } else {
+    estimatedAmount = await stats.estimatedRedeem(market, principals.toString(), yields.toString(), toBackingToken);
+    transactions.push(...(toBackingToken
+      ? await controller.populateRedeemToBacking(user, pool, principals.toString(), yields.toString(), user)
+      : await controller.populateRedeemToYieldBearing(user, pool, principals.toString(), yields.toString(), user)
+    ));
+  }
+
+  return {
+    pool: pool,
+    amm: amm,
+    finalize: finalize,
+    toBackingToken: toBackingToken,
+    lpTokens: lpTokens,
+    principals: principals,
+    yields: yields,
+    estimatedAmount: estimatedAmount,
+    transactions: transactions
+  };
+}
@@ -0,0 +1,33 @@
+import { Contract, Signer as EthersSigner, providers } from "ethers";
+
+/**
+ * Anything a plain ethers Contract can be connected with
+ */
+export type SignerOrProvider = EthersSigner|providers.Provider;
+
+/**
+ * Creates a Contract of an already deployed contract by its name, eg "TempusController".
+ * `abiLoader` only needs ethers, `hardhatLoader` of the `testing` subpath uses hardhat artifacts
+ */
+export type ContractLoader = (contractName:string, address:string) => Promise<Contract>;
+
+/**
+ * @returns ABI bundled with the SDK, exported from the compiled contracts by hardhat-abi-exporter
+ */
+export function bundledAbi(contractName:string): any[] {
+  try {
+    return require("../abi/" + contractName + ".json");
+  } catch (e) {
+    throw new Error("ABI of " + contractName + " is not bundled with the SDK, run `yarn build` to export it");
+  }
+}
+
+/**
+ * Loads contracts from the bundled ABIs, which only needs ethers
+ * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+ */
+export function abiLoader(signerOrProvider:SignerOrProvider): ContractLoader {
+  return async (contractName:string, address:string) => {
+    return new Contract(address, bundledAbi(contractName), signerOrProvider);
+  };
+}
@@ -0,0 +1,149 @@
+import { BigNumber, providers } from "ethers";
+import { Decimal as MathDecimal } from "decimal.js";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { TempusPool, PoolSnapshot } from "./TempusPool";
+import { TempusPoolAMM } from "./TempusPoolAMM";
+import { DAY } from "./TempusAMM";
+import { calcOutGivenIn, calculateSpotPrice } from "./amm/StableMath";
+import { fp, fromFp } from "./amm/Numbers";
+
+export const YEAR = DAY * 365;
+
+/**
+ * Pool and AMM state needed for pricing a depositAndFix, read at a single block
+ */
+interface MarketState {
+  block:providers.Block;
+  pool:PoolSnapshot;
+  amp:BigNumber; // raw amplification value, including AMP_PRECISION
+  balances:BigNumber[]; // 1e18 rate adjusted [principals, yields] balances, as used by TempusAMM StableMath
+  principalPrice:MathDecimal; // TPS price in BT
+  yieldPrice:MathDecimal; // TYS price in BT
+  swapFee:MathDecimal;
+  currentYield:MathDecimal; // relative to 1, eg 1.05 for +5% since pool start
+  timeToMaturity:number; // seconds
+}
+
+function math(value:Numberish|Decimal): MathDecimal {
+  return new MathDecimal(value.toString());
+}
+
+function toDecimal(value:MathDecimal): Decimal {
+  return decimal(value.toFixed(18, MathDecimal.ROUND_DOWN), 18);
+}
+
+async function readMarketState(pool:TempusPool, amm:TempusPoolAMM, blockTag:providers.BlockTag): Promise<MarketState> {
+  const block = await pool.contract.provider.getBlock(blockTag);
+  const [p, a, ampParam] = await Promise.all([
+    pool.snapshot(block.number),
+    amm.snapshot(block.number),
+    amm.getAmplificationParam(block.number)
+  ]);
+  if (p.matured) {
+    throw new Error("TempusPool has matured, its APR cannot be locked in anymore");
+  }
+
+  const principalPrice = math(p.pricePerPrincipalShare);
+  const yieldPrice = math(p.pricePerYieldShare);
+  return {
+    block: block,
+    pool: p,
+    amp: BigNumber.from(ampParam.value),
+    balances: [fp(math(a.principals).mul(principalPrice)), fp(math(a.yields).mul(yieldPrice))],
+    principalPrice: principalPrice,
+    yieldPrice: yieldPrice,
+    swapFee: math(a.swapFeePercentage),
+    currentYield: math(p.currentInterestRate).div(math(p.initialInterestRate)),
+    timeToMaturity: Number(p.maturityTime) - block.timestamp
+  };
+}
+
+/**
+ * @returns Simple annualized rate of @param periodReturn earned over @param seconds
+ */
+function annualize(periodReturn:MathDecimal, seconds:number): Decimal {
+  return toDecimal(periodReturn.mul(YEAR).div(seconds));
+}
+
+/**
+ * Calculates the fixed APR a depositAndFix would lock in right now, at the AMM spot price.
+ * Depositing 1 BT mints TPS+TYS, the TYS are swapped to TPS and every TPS is worth 1 BT at maturity.
+ * @param pool The TempusPool to deposit into
+ * @param amm The TempusPoolAMM trading the pool's shares
+ * @param blockTag Block to price at, default is the latest block
+ * @returns Annualized fixed rate, eg 0.05 for 5% APR
+ */
+export async function getImpliedFixedApr(
+  pool:TempusPool,
+  amm:TempusPoolAMM,
+  blockTag:providers.BlockTag = "latest"
+): Promise<Decimal> {
+  const m = await readMarketState(pool, amm, blockTag);
+
+  // value units of yields per value unit of principals
+  const spotPrice = fromFp(calculateSpotPrice(m.amp, m.balances));
+  const principalsPerYield = m.yieldPrice.mul(MathDecimal.sub(1, m.swapFee)).div(spotPrice.mul(m.principalPrice));
+
+  const sharesPerBacking = MathDecimal.div(1, m.currentYield);
+  const principalsPerBacking = sharesPerBacking.mul(principalsPerYield.add(1));
+  return annualize(principalsPerBacking.sub(1), m.timeToMaturity);
+}
+
+/**
+ * Calculates the fixed APR of a depositAndFix of the given size, including the price impact of the swap
+ * @param pool The TempusPool to deposit into
+ * @param amm The TempusPoolAMM trading the pool's shares
+ * @param amount Amount of BT or YBT to deposit
+ * @param isBackingToken If true, @param amount is in BT, otherwise YBT
+ * @param blockTag Block to price at, default is the latest block
+ * @returns Annualized fixed rate, eg 0.05 for 5% APR
+ */
+export async function getImpliedFixedAprForDeposit(
+  pool:TempusPool,
+  amm:TempusPoolAMM,
+  amount:Numberish,
+  isBackingToken:boolean,
+  blockTag:providers.BlockTag = "latest"
+): Promise<Decimal> {
+  const m = await readMarketState(pool, amm, blockTag);
+  const backingAmount = isBackingToken ? math(amount) : math(
+    await pool.numAssetsPerYieldToken(amount, m.pool.currentInterestRate.toString(), m.block.number)
+  );
+
+  const shares = backingAmount.div(m.currentYield);
+  const yieldsValueIn = shares.mul(m.yieldPrice).mul(MathDecimal.sub(1, m.swapFee));
+  const principalsValueOut = fromFp(calcOutGivenIn(m.amp, m.balances, /*firstTokenIn*/false, fp(yieldsValueIn)));
+  const principals = shares.add(principalsValueOut.div(m.principalPrice));
+  return annualize(principals.div(backingAmount).sub(1), m.timeToMaturity);
+}
+
+/**
+ * Calculates the variable APR earned by the pool's yield bearing token, from the growth of its interest rate
+ * @param pool The TempusPool
+ * @param fromBlock Start of the measured period, default is the pool start
+ * @param toBlock End of the measured period, default is the latest block
+ * @returns Annualized variable rate, eg 0.05 for 5% APR
+ */
+export async function getImpliedVariableApr(
+  pool:TempusPool,
+  fromBlock?:providers.BlockTag,
+  toBlock:providers.BlockTag = "latest"
+): Promise<Decimal> {
+  const end = await pool.snapshot(toBlock);
+  let startRate:MathDecimal, startTime:number;
+  if (fromBlock === undefined) {
+    startRate = math(end.initialInterestRate);
+    startTime = Number(end.startTime);
+  } else {
+    const start = await pool.snapshot(fromBlock);
+    startRate = math(start.currentInterestRate);
+    startTime = start.blockTimestamp;
+  }
+
+  const elapsed = Math.min(end.blockTimestamp, Number(end.maturityTime)) - startTime;
+  if (elapsed <= 0) {
+    throw new Error("Cannot calculate variable APR over an empty period");
+  }
+  return annualize(math(end.currentInterestRate).div(startRate).sub(1), elapsed);
+}
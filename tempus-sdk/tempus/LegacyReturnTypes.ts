@@ -0,0 +1,241 @@
+import { BigNumber, providers } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish, formatDecimal } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { ContractBase, Addressable } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { TempusPool } from "./TempusPool";
+import { TempusAMM } from "./TempusAMM";
+import { TempusPoolAMM } from "./TempusPoolAMM";
+import { TempusMarket } from "./TempusMarket";
+import { PoolShare } from "./PoolShare";
+import { Stats } from "./Stats";
+
+// Compatibility shims with the return types the SDK wrappers had before they returned
+// Decimal amounts and rates and bigint timestamps. Values are converted back with the same
+// `fromBigNum`/`formatDecimal` as before, so code can be migrated one call at a time
+
+/**
+ * TempusPool with Numberish amounts, rates and timestamps
+ * @deprecated Use TempusPool
+ */
+export class LegacyTempusPool {
+  pool:TempusPool;
+
+  constructor(pool:TempusPool) {
+    this.pool = pool;
+  }
+
+  async startTime(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return Number(await this.pool.startTime(blockTag));
+  }
+
+  async maturityTime(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return Number(await this.pool.maturityTime(blockTag));
+  }
+
+  async maximumNegativeYieldDuration(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return Number(await this.pool.maximumNegativeYieldDuration(blockTag));
+  }
+
+  async initialInterestRate(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacyRate(this.pool, await this.pool.initialInterestRate(blockTag));
+  }
+
+  async currentInterestRate(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacyRate(this.pool, await this.pool.currentInterestRate(blockTag));
+  }
+
+  async updateInterestRate(): Promise<Numberish> {
+    return legacyRate(this.pool, await this.pool.updateInterestRate());
+  }
+
+  async maturityInterestRate(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacyRate(this.pool, await this.pool.maturityInterestRate(blockTag));
+  }
+
+  async estimatedMintedShares(amount:Numberish, backingToken:boolean, blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.pool.principalShare, await this.pool.estimatedMintedShares(amount, backingToken, blockTag));
+  }
+
+  async getSharesAmountForExactTokensOut(amountOut:Numberish, isBackingToken:boolean, blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.pool.principalShare, await this.pool.getSharesAmountForExactTokensOut(amountOut, isBackingToken, blockTag));
+  }
+
+  async numAssetsPerYieldToken(amount:Numberish, interestRate:Numberish, blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.pool.asset, await this.pool.numAssetsPerYieldToken(amount, interestRate, blockTag));
+  }
+
+  async numYieldTokensPerAsset(amount:Numberish, interestRate:Numberish, blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.pool.yieldBearing, await this.pool.numYieldTokensPerAsset(amount, interestRate, blockTag));
+  }
+
+  async pricePerPrincipalShare(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.pool.principalShare, await this.pool.pricePerPrincipalShare(blockTag));
+  }
+
+  async pricePerYieldShare(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.pool.yieldShare, await this.pool.pricePerYieldShare(blockTag));
+  }
+}
+
+/**
+ * TempusAMM with Numberish and number amounts
+ * @deprecated Use TempusAMM
+ */
+export class LegacyTempusAMM {
+  amm:TempusAMM;
+
+  constructor(amm:TempusAMM) {
+    this.amm = amm;
+  }
+
+  async compositionBalanceOf(user:Addressable, blockTag?:providers.BlockTag): Promise<{token0: Numberish, token1: Numberish}> {
+    const { token0, token1 } = await this.amm.compositionBalanceOf(user, blockTag);
+    return {token0: legacy(this.amm.token0, token0), token1: legacy(this.amm.token1, token1)};
+  }
+
+  async getExpectedReturnGivenIn(inAmount: Numberish, tokenIn: PoolShare, blockTag?:providers.BlockTag) : Promise<Numberish> {
+    return legacy(tokenIn, await this.amm.getExpectedReturnGivenIn(inAmount, tokenIn, blockTag));
+  }
+
+  async getTokensOutGivenLPIn(inAmount: Numberish, blockTag?:providers.BlockTag): Promise<{token0Out:number, token1Out:number}> {
+    const p = await this.amm.getTokensOutGivenLPIn(inAmount, blockTag);
+    return {token0Out: +legacy(this.amm.token0, p.token0Out), token1Out: +legacy(this.amm.token1, p.token1Out)};
+  }
+
+  async getLPTokensOutForTokensIn(token0AmountIn:Numberish, token1AmountIn:Numberish, blockTag?:providers.BlockTag): Promise<Numberish> {
+    return +legacy(this.amm, await this.amm.getLPTokensOutForTokensIn(token0AmountIn, token1AmountIn, blockTag));
+  }
+
+  async getLPTokensInGivenTokensOut(token0Out:Numberish, token1Out:Numberish, blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.amm, await this.amm.getLPTokensInGivenTokensOut(token0Out, token1Out, blockTag));
+  }
+
+  async getAmplificationParam(blockTag?:providers.BlockTag): Promise<{value:Numberish, isUpdating:Numberish, precision:Numberish}> {
+    return this.amm.contract.getAmplificationParameter({ blockTag });
+  }
+
+  async swapFeePercentage(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.amm, await this.amm.swapFeePercentage(blockTag));
+  }
+}
+
+/**
+ * TempusPoolAMM with number amounts
+ * @deprecated Use TempusPoolAMM
+ */
+export class LegacyTempusPoolAMM extends LegacyTempusAMM {
+  constructor(amm:TempusPoolAMM) {
+    super(amm);
+  }
+
+  async getExpectedPYOutGivenLPIn(inAmount: Numberish, blockTag?:providers.BlockTag): Promise<{principalsOut:number, yieldsOut:number}> {
+    const p = await this.getTokensOutGivenLPIn(inAmount, blockTag);
+    return {principalsOut: p.token0Out, yieldsOut: p.token1Out};
+  }
+}
+
+/**
+ * Stats with Numberish estimates
+ * @deprecated Use Stats
+ */
+export class LegacyStats {
+  stats:Stats;
+
+  constructor(stats:Stats) {
+    this.stats = stats;
+  }
+
+  async estimatedMintedShares(pool:TempusMarket, amount:Numberish, isBackingToken:boolean, blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(pool.tempus.principalShare, await this.stats.estimatedMintedShares(pool, amount, isBackingToken, blockTag));
+  }
+
+  async estimatedRedeem(pool:TempusMarket, principals:Numberish, yields:Numberish, toBackingToken:boolean, blockTag?:providers.BlockTag): Promise<Numberish> {
+    const token = toBackingToken ? pool.tempus.asset : pool.tempus.yieldBearing;
+    return legacy(token, await this.stats.estimatedRedeem(pool, principals, yields, toBackingToken, blockTag));
+  }
+
+  async estimatedDepositAndProvideLiquidity(
+    pool:TempusMarket,
+    amount:Numberish,
+    isBackingToken:boolean,
+    blockTag?:providers.BlockTag
+  ): Promise<[Numberish,Numberish,Numberish]> {
+    const [lpTokens, principals, yields] = await this.stats.estimatedDepositAndProvideLiquidity(pool, amount, isBackingToken, blockTag);
+    return [legacy(pool.amm, lpTokens), legacy(pool.tempus.principalShare, principals), legacy(pool.tempus.yieldShare, yields)];
+  }
+
+  async estimatedDepositAndFix(pool:TempusMarket, amount:Numberish, isBackingToken:boolean, blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(pool.tempus.principalShare, await this.stats.estimatedDepositAndFix(pool, amount, isBackingToken, blockTag));
+  }
+
+  async estimatedDepositAndLeverage(
+    pool:TempusMarket,
+    amount:Numberish,
+    isBackingToken:boolean,
+    leverage:Numberish,
+    blockTag?:providers.BlockTag
+  ): Promise<[Numberish,Numberish]> {
+    const [principals, yields] = await this.stats.estimatedDepositAndLeverage(pool, amount, isBackingToken, leverage, blockTag);
+    return [legacy(pool.tempus.principalShare, principals), legacy(pool.tempus.yieldShare, yields)];
+  }
+
+  async estimateExitAndRedeem(
+    pool:TempusMarket,
+    lpTokens:Numberish,
+    principals:Numberish,
+    yields:Numberish,
+    toBackingToken:boolean,
+    blockTag?:providers.BlockTag
+  ): Promise<Numberish> {
+    const token = toBackingToken ? pool.tempus : pool.tempus.yieldBearing;
+    return legacy(token, await this.stats.estimateExitAndRedeem(pool, lpTokens, principals, yields, toBackingToken, blockTag));
+  }
+
+  async estimateExitAndRedeemGivenStakedOut(
+    pool:TempusMarket,
+    principals:Numberish,
+    yields:Numberish,
+    principalStaked:Numberish,
+    yieldsStaked:Numberish,
+    toBackingToken:boolean,
+    blockTag?:providers.BlockTag
+  ): Promise<{ tokenAmount:Numberish, lpTokensRedeemed:Numberish }> {
+    const token = toBackingToken ? pool.tempus : pool.tempus.yieldBearing;
+    const r = await this.stats.estimateExitAndRedeemGivenStakedOut(
+      pool, principals, yields, principalStaked, yieldsStaked, toBackingToken, blockTag
+    );
+    return { tokenAmount: legacy(token, r.tokenAmount), lpTokensRedeemed: legacy(pool.amm, r.lpTokensRedeemed) };
+  }
+}
+
+/**
+ * PoolShare with Numberish prices
+ * @deprecated Use PoolShare
+ */
+export class LegacyPoolShare {
+  share:PoolShare;
+
+  constructor(share:PoolShare) {
+    this.share = share;
+  }
+
+  async getPricePerFullShare(): Promise<Numberish> {
+    return legacy(this.share, await this.share.getPricePerFullShare());
+  }
+
+  async getPricePerFullShareStored(blockTag?:providers.BlockTag): Promise<Numberish> {
+    return legacy(this.share, await this.share.getPricePerFullShareStored(blockTag));
+  }
+}
+
+type TokenPrecision = Pick<ContractBase, "toBigNum"|"fromBigNum">;
+
+// converts back through the contract precision of @param token, same as the former `fromBigNum` return values
+function legacy(token:TokenPrecision, value:Decimal): Numberish {
+  return token.fromBigNum(token.toBigNum(value.toString()));
+}
+
+// same as the former `formatDecimal` interest rates
+function legacyRate(pool:TempusPool, rate:Decimal): Numberish {
+  return formatDecimal(BigNumber.from(pool.toContractExchangeRate(rate.toString()).toString()), pool.exchangeRatePrec);
+}
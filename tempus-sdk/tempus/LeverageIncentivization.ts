@@ -0,0 +1,241 @@
+import { Contract, PopulatedTransaction, constants, Transaction, providers, utils } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish, toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { ContractBase, Signer, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
+import { TempusMarket } from "./TempusMarket";
+import { PositionManager, BurnParams, encodeBurnParams } from "./PositionManager";
+import { TransactionBuilder, sendTransactions } from "./TransactionBuilder";
+import { toTimestamp } from "./TempusController";
+import { ContractLoader, SignerOrProvider, abiLoader } from "./ContractLoader";
+
+/**
+ * Wrapper around LeverageIncentivization, which rewards staked leveraged PositionManager positions.
+ * Rewards and fees are in the rewards token, which always has 18 decimals
+ * View methods accept an optional `blockTag` for reading historical state
+ */
+export class LeverageIncentivization extends ContractBase {
+  private static _contractName = "LeverageIncentivization";
+  rewardsToken:ERC20;
+
+  constructor(contract:Contract, rewardsToken:ERC20) {
+    super(LeverageIncentivization._contractName, 18, contract);
+    this.rewardsToken = rewardsToken;
+  }
+
+  /**
+   * Deploys a new LeverageIncentivization
+   * @param positionManager The PositionManager whose positions can be staked
+   * @param rewardsToken ERC20 token with 18 decimals which is distributed as rewards
+   * @param amm The TempusAMM whose leveraged positions are incentivized
+   * @param maxEarlyWithdrawalFee Fee of claiming rewards at the start, decreases linearly to 0 at expiration
+   */
+  static async deploy(
+    positionManager:Addressable,
+    rewardsToken:ERC20,
+    amm:Addressable,
+    maxEarlyWithdrawalFee:Numberish,
+    name:string = "Staked Tempus Positions",
+    symbol:string = "stPOSITION",
+    deployer?:Signer
+  ): Promise<LeverageIncentivization> {
+    const contract = await ContractBase.deployContractBy(
+      LeverageIncentivization._contractName,
+      deployer,
+      addressOf(positionManager),
+      rewardsToken.address,
+      addressOf(amm),
+      toWei(maxEarlyWithdrawalFee),
+      name,
+      symbol
+    );
+    return new LeverageIncentivization(contract, rewardsToken);
+  }
+
+  /**
+   * Attaches to an already deployed LeverageIncentivization
+   * @param loader Loads the contracts, eg `abiLoader` or `hardhatLoader` of the `testing` subpath
+   */
+  static async attach(address:string, loader:ContractLoader): Promise<LeverageIncentivization> {
+    const contract = await loader(LeverageIncentivization._contractName, address);
+    const rewardsToken = new ERC20("IERC20Metadata", 18, await loader("IERC20Metadata", await contract.rewardsToken()));
+    return new LeverageIncentivization(contract, rewardsToken);
+  }
+
+  /**
+   * Connects to an already deployed LeverageIncentivization with the ABIs bundled in the SDK, without hardhat
+   * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+   */
+  static async connect(address:string, signerOrProvider:SignerOrProvider): Promise<LeverageIncentivization> {
+    return LeverageIncentivization.attach(address, abiLoader(signerOrProvider));
+  }
+
+  /**
+   * Stakes a leveraged position by transferring it to this contract with `safeTransferFrom`.
+   * The staker receives a staked position token with the same id
+   * @param user Owner of the position
+   * @param positionManager The authorized PositionManager
+   * @param pool The TempusPool and TempusAMM of the position, for share decimals
+   * @param tokenId Position to stake
+   * @param mintedShares Shares minted when the position was created, @see PositionManager.mintedEvent
+   */
+  async stake(user:Signer, positionManager:PositionManager, pool:TempusMarket, tokenId:number, mintedShares:Numberish): Promise<Transaction> {
+    return sendTransactions(user, await this.populateStake(user, positionManager, pool, tokenId, mintedShares));
+  }
+
+  async populateStake(
+    user:Addressable,
+    positionManager:PositionManager,
+    pool:TempusMarket,
+    tokenId:number,
+    mintedShares:Numberish
+  ): Promise<PopulatedTransaction[]> {
+    // onERC721Received credits the Yields bought by the position, which are its Yields minus `mintedShares`
+    const data = utils.defaultAbiCoder.encode(["uint256"], [pool.tempus.yieldShare.toBigNum(mintedShares)]);
+    return new TransactionBuilder(user).call(positionManager, "safeTransferFrom(address,address,uint256,bytes)", [
+      addressOf(user), this.address, tokenId, data
+    ]).transactions;
+  }
+
+  /**
+   * Unstakes a position, pays its rewards and liquidates the position
+   * @param user Staker of the position
+   * @param pool The TempusPool and TempusAMM of the position, for share decimals
+   * @param tokenId Position to unstake
+   * @param params PositionManager burn instructions
+   */
+  async unstake(user:Signer, pool:TempusMarket, tokenId:number, params:BurnParams): Promise<Transaction> {
+    return sendTransactions(user, await this.populateUnstake(user, pool, tokenId, params));
+  }
+
+  async populateUnstake(user:Addressable, pool:TempusMarket, tokenId:number, params:BurnParams): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "unstake", [tokenId, encodeBurnParams(pool, params)]).transactions;
+  }
+
+  /**
+   * Claims rewards of a staked position, minus the early withdrawal fee
+   */
+  async claimRewards(user:Signer, tokenId:number): Promise<Transaction> {
+    return sendTransactions(user, await this.populateClaimRewards(user, tokenId));
+  }
+
+  async populateClaimRewards(user:Addressable, tokenId:number): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "claimRewards", [tokenId]).transactions;
+  }
+
+  /**
+   * @returns Rewards accrued by a staked position, before the early withdrawal fee
+   */
+  async earned(tokenId:number, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.earned(tokenId, { blockTag }));
+  }
+
+  /**
+   * @returns Rewards accrued per staked share since the rewards distribution started
+   */
+  async rewardPerToken(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.rewardPerToken({ blockTag }));
+  }
+
+  /**
+   * @returns Rewards remaining to be distributed until expiration
+   */
+  async getRewardForDuration(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.getRewardForDuration({ blockTag }));
+  }
+
+  /**
+   * Rewards are distributed on a linearly decreasing schedule, see StakingMath.R_t
+   * @returns Rewards distributed in the current second, 0 if rewards are not initialized or expired
+   */
+  async rewardRate(blockTag?:providers.BlockTag): Promise<Decimal> {
+    const [size, duration, start, lastTime] = await Promise.all([
+      this.contract.totalIncentiveSize({ blockTag }),
+      this.contract.rewardsDuration({ blockTag }),
+      this.contract.startTime({ blockTag }),
+      this.contract.lastTimeRewardApplicable({ blockTag })
+    ]);
+    if (duration.lte(1)) {
+      return this.toDecimal(constants.Zero);
+    }
+    const elapsed = lastTime.sub(start);
+    return this.toDecimal(size.mul(duration.sub(elapsed).mul(2)).div(duration.mul(duration.sub(1))));
+  }
+
+  /**
+   * @returns Total rewards distributed over the whole rewards duration
+   */
+  async totalIncentiveSize(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.totalIncentiveSize({ blockTag }));
+  }
+
+  /**
+   * @returns Current early withdrawal fee, eg 0.1 for 10%
+   */
+  async effectiveEarlyWithdrawalFee(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.effectiveEarlyWithdrawalFee({ blockTag }));
+  }
+
+  /**
+   * @returns Early withdrawal fees accrued for the owner
+   */
+  async feesAccrued(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.feesAccrued({ blockTag }));
+  }
+
+  /**
+   * Starts the rewards distribution, the rewards are transferred from the owner
+   * @param owner Owner of LeverageIncentivization
+   * @param reward Amount of rewards to distribute
+   * @param expiration End of the rewards distribution
+   */
+  async initializeRewards(owner:Signer, reward:Numberish, expiration:Date): Promise<Transaction> {
+    return sendTransactions(owner, await this.populateInitializeRewards(owner, reward, expiration));
+  }
+
+  async populateInitializeRewards(owner:Addressable, reward:Numberish, expiration:Date): Promise<PopulatedTransaction[]> {
+    const builder = await new TransactionBuilder(owner).allow(this.rewardsToken, this, reward);
+    return builder.call(this, "initializeRewards", [this.toBigNum(reward), toTimestamp(expiration)]).transactions;
+  }
+
+  /**
+   * Withdraws all rewards to the owner, only possible when no positions are staked
+   */
+  async terminateRewards(owner:Signer): Promise<Transaction> {
+    return sendTransactions(owner, await this.populateTerminateRewards(owner));
+  }
+
+  async populateTerminateRewards(owner:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(owner).call(this, "terminateRewards", []).transactions;
+  }
+
+  /**
+   * Sends the accrued early withdrawal fees to @param recipient
+   */
+  async collectFees(owner:Signer, recipient:Addressable): Promise<Transaction> {
+    return sendTransactions(owner, await this.populateCollectFees(owner, recipient));
+  }
+
+  async populateCollectFees(owner:Addressable, recipient:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(owner).call(this, "collectFees", [addressOf(recipient)]).transactions;
+  }
+
+  /**
+   * Blocks staking new positions, staked positions can still be unstaked
+   */
+  async pause(owner:Signer): Promise<Transaction> {
+    return sendTransactions(owner, await this.populatePause(owner));
+  }
+
+  async populatePause(owner:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(owner).call(this, "pause", []).transactions;
+  }
+
+  async unpause(owner:Signer): Promise<Transaction> {
+    return sendTransactions(owner, await this.populateUnpause(owner));
+  }
+
+  async populateUnpause(owner:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(owner).call(this, "unpause", []).transactions;
+  }
+}
@@ -0,0 +1,278 @@
+import { providers, utils } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { TempusPool, PoolSnapshot } from "./TempusPool";
+
+/**
+ * Conditions reported by NegativeYieldMonitor, each is reported once when it starts
+ */
+export enum PoolAlertKind {
+  RateDecreased = "RateDecreased", // rate is lower than at the previous poll, but not below the initial rate
+  NegativeYield = "NegativeYield", // rate is below the initial rate, deposits revert with NegativeYield
+  HaltImminent = "HaltImminent", // projected exceptional halt is within the warning period
+  YieldRecovered = "YieldRecovered", // rate is back at or above the initial rate
+  ExceptionalHalt = "ExceptionalHalt", // pool is halted and considered matured
+}
+
+export enum AlertSeverity {
+  Info = "info",
+  Warning = "warning",
+  Critical = "critical",
+}
+
+export interface PoolAlert {
+  kind:PoolAlertKind;
+  severity:AlertSeverity;
+  pool:string; // TempusPool address
+  blockNumber:number;
+  timestamp:number; // block timestamp of the poll
+  initialInterestRate:Decimal;
+  currentInterestRate:Decimal;
+  previousInterestRate?:Decimal; // rate at the previous poll
+  negativeYieldSince?:number; // first poll with a rate below the initial rate
+  projectedHaltTime?:number; // earliest exceptional halt, `negativeYieldSince + maximumNegativeYieldDuration`
+  exceptionalHaltTime?:number;
+  message:string;
+}
+
+/**
+ * PoolAlert with the rates as decimal strings, as written by the JSON sinks
+ */
+export interface PoolAlertJSON extends Omit<PoolAlert, "initialInterestRate"|"currentInterestRate"|"previousInterestRate"> {
+  initialInterestRate:string;
+  currentInterestRate:string;
+  previousInterestRate?:string;
+}
+
+export interface RateObservation {
+  blockNumber:number;
+  timestamp:number;
+  interestRate:Decimal;
+}
+
+/**
+ * Receives every alert of a poll, in order
+ */
+export type AlertSink = (alert:PoolAlert) => void|Promise<void>;
+
+export interface NegativeYieldMonitorOptions {
+  haltWarningPeriod?:number; // seconds before the projected halt to report HaltImminent, default 1 day
+  maxHistory?:number; // rate observations kept per pool, default 1000
+}
+
+interface PoolState {
+  history:RateObservation[];
+  negativeYieldSince?:number;
+  haltWarned:boolean;
+  halted:boolean;
+}
+
+/**
+ * @returns JSON friendly copy of @param alert, with rates as decimal strings
+ */
+export function alertToJSON(alert:PoolAlert): PoolAlertJSON {
+  return {
+    ...alert,
+    initialInterestRate: alert.initialInterestRate.toString(),
+    currentInterestRate: alert.currentInterestRate.toString(),
+    previousInterestRate: alert.previousInterestRate?.toString(),
+  };
+}
+
+/**
+ * Logs a single readable line per alert
+ */
+export function consoleAlertSink(log:(line:string) => void = console.log): AlertSink {
+  return (alert:PoolAlert) => log(`[${alert.severity}] ${alert.kind} ${alert.pool}: ${alert.message}`);
+}
+
+/**
+ * Writes each alert as a single line of JSON, eg for log collectors
+ */
+export function jsonAlertSink(write:(line:string) => void = console.log): AlertSink {
+  return (alert:PoolAlert) => write(JSON.stringify(alertToJSON(alert)));
+}
+
+/**
+ * Posts each alert as JSON to @param url
+ * @param post Sends the request body, default is an ethers `fetchJson` POST
+ */
+export function webhookAlertSink(
+  url:string,
+  post:(url:string, body:string) => Promise<void> = async (url, body) => { await utils.fetchJson(url, body); }
+): AlertSink {
+  return (alert:PoolAlert) => post(url, JSON.stringify(alertToJSON(alert)));
+}
+
+/**
+ * Watches pools for negative yield and exceptional halts.
+ *
+ * A pool has negative yield while its interest rate is below the initial rate. Deposits revert
+ * during a negative yield period, and once it lasts `maximumNegativeYieldDuration` the next deposit
+ * or redeem halts the pool. The contract starts the period at its first deposit or redeem,
+ * so the halt projected from the first poll with negative yield is the earliest possible one
+ */
+export class NegativeYieldMonitor {
+  pools:TempusPool[];
+  sinks:AlertSink[];
+  haltWarningPeriod:number;
+  maxHistory:number;
+  private states = new Map<string, PoolState>();
+  private timer?:ReturnType<typeof setInterval>;
+  private polling = false;
+
+  constructor(pools:TempusPool[], sinks:AlertSink[] = [consoleAlertSink()], options:NegativeYieldMonitorOptions = {}) {
+    this.pools = pools;
+    this.sinks = sinks;
+    this.haltWarningPeriod = options.haltWarningPeriod ?? 24*60*60;
+    this.maxHistory = options.maxHistory ?? 1000;
+  }
+
+  /**
+   * @returns Interest rates of @param pool observed by the polls, oldest first
+   */
+  history(pool:TempusPool): RateObservation[] {
+    return this.state(pool).history;
+  }
+
+  /**
+   * Reads the interest rate of every pool and sends the new alerts to the sinks.
+   * The pool states are only updated once every sink received the alerts, so if reading a pool
+   * or a sink fails, the next poll raises the same alerts again
+   * @param blockTag Block to read at, default is the latest block
+   * @returns Alerts of this poll
+   */
+  async poll(blockTag:providers.BlockTag = "latest"): Promise<PoolAlert[]> {
+    const snapshots = await Promise.all(this.pools.map(pool => pool.snapshot(blockTag)));
+
+    const alerts:PoolAlert[] = [];
+    const states = new Map<string, PoolState>();
+    this.pools.forEach((pool, i) => {
+      const state = this.state(pool);
+      const next:PoolState = { ...state, history: state.history.slice() };
+      alerts.push(...this.check(pool, snapshots[i], next));
+      states.set(pool.address, next);
+    });
+
+    for (const alert of alerts) {
+      for (const sink of this.sinks) {
+        await sink(alert);
+      }
+    }
+    states.forEach((state, address) => this.states.set(address, state));
+    return alerts;
+  }
+
+  /**
+   * Polls every @param intervalMs until `stop()`, skipping a poll while the previous one is running
+   * @param onError Receives errors of a poll, eg a failed RPC call or sink, the next poll runs as usual
+   */
+  start(intervalMs:number, onError:(e:any) => void): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      if (this.polling) {
+        return;
+      }
+      this.polling = true;
+      this.poll().catch(e => {
+        try {
+          onError(e);
+        } catch {} // a failing error handler must not stop the polls
+      }).finally(() => { this.polling = false; });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private state(pool:TempusPool): PoolState {
+    let state = this.states.get(pool.address);
+    if (!state) {
+      state = { history: [], haltWarned: false, halted: false };
+      this.states.set(pool.address, state);
+    }
+    return state;
+  }
+
+  /**
+   * @param state Copy of the pool state, updated with this poll
+   */
+  private check(pool:TempusPool, s:PoolSnapshot, state:PoolState): PoolAlert[] {
+    const previous = state.history[state.history.length - 1];
+    state.history.push({ blockNumber: s.blockNumber, timestamp: s.blockTimestamp, interestRate: s.currentInterestRate });
+    if (state.history.length > this.maxHistory) {
+      state.history.shift();
+    }
+
+    const alerts:PoolAlert[] = [];
+    const alert = (kind:PoolAlertKind, severity:AlertSeverity, message:string, details:Partial<PoolAlert> = {}) => {
+      alerts.push({
+        kind: kind,
+        severity: severity,
+        pool: pool.address,
+        blockNumber: s.blockNumber,
+        timestamp: s.blockTimestamp,
+        initialInterestRate: s.initialInterestRate,
+        currentInterestRate: s.currentInterestRate,
+        previousInterestRate: previous?.interestRate,
+        negativeYieldSince: state.negativeYieldSince,
+        ...details,
+        message: message
+      });
+    };
+
+    if (s.exceptionalHaltTime !== null) {
+      if (!state.halted) {
+        const exceptionalHaltTime = Number(s.exceptionalHaltTime);
+        state.halted = true;
+        alert(PoolAlertKind.ExceptionalHalt, AlertSeverity.Critical,
+          "halted at " + new Date(exceptionalHaltTime * 1000).toISOString() + ", deposits are closed",
+          { exceptionalHaltTime: exceptionalHaltTime }
+        );
+      }
+      return alerts;
+    }
+    if (s.matured) {
+      return alerts; // the maturity interest rate is final, negative yield no longer halts the pool
+    }
+
+    // compare in contract precision, same as TempusPool.validateInterestRate
+    const rate = contractRate(pool, s.currentInterestRate);
+    const maximumNegativeYieldDuration = Number(s.maximumNegativeYieldDuration);
+    if (rate < contractRate(pool, s.initialInterestRate)) {
+      if (state.negativeYieldSince === undefined) {
+        state.negativeYieldSince = s.blockTimestamp;
+        state.haltWarned = false;
+        alert(PoolAlertKind.NegativeYield, AlertSeverity.Warning,
+          "interest rate " + s.currentInterestRate.toString() + " is below the initial rate " + s.initialInterestRate.toString(),
+          { negativeYieldSince: state.negativeYieldSince, projectedHaltTime: state.negativeYieldSince + maximumNegativeYieldDuration }
+        );
+      }
+      const projectedHaltTime = state.negativeYieldSince + maximumNegativeYieldDuration;
+      if (!state.haltWarned && projectedHaltTime - s.blockTimestamp <= this.haltWarningPeriod) {
+        state.haltWarned = true;
+        alert(PoolAlertKind.HaltImminent, AlertSeverity.Critical,
+          "exceptional halt possible from " + new Date(projectedHaltTime * 1000).toISOString(),
+          { projectedHaltTime: projectedHaltTime }
+        );
+      }
+    } else if (state.negativeYieldSince !== undefined) {
+      alert(PoolAlertKind.YieldRecovered, AlertSeverity.Info,
+        "interest rate " + s.currentInterestRate.toString() + " is back at the initial rate " + s.initialInterestRate.toString()
+      );
+      state.negativeYieldSince = undefined;
+    } else if (previous && rate < contractRate(pool, previous.interestRate)) {
+      alert(PoolAlertKind.RateDecreased, AlertSeverity.Info,
+        "interest rate decreased from " + previous.interestRate.toString() + " to " + s.currentInterestRate.toString()
+      );
+    }
+    return alerts;
+  }
+}
+
+function contractRate(pool:TempusPool, rate:Decimal): bigint {
+  return BigInt(pool.toContractExchangeRate(rate.toString()).toString());
+}
@@ -0,0 +1,163 @@
+import { BytesLike, utils } from "ethers";
+import { parseDecimal } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
+import { IERC20 } from "@tempus-labs/utils/ts/token/IERC20";
+import { TempusSharesNames } from "./TempusPool";
+import { TempusController } from "./TempusController";
+
+export enum PoolType {
+  None = "None",
+  Aave = "Aave",
+  Lido = "Lido",
+  Compound = "Compound",
+  Yearn = "Yearn"
+}
+
+/**
+ * Parameters passed to `PoolAdapter.constructorArgs` when deploying a new TempusPool
+ */
+export interface PoolAdapterDeployParams {
+  owner:Signer;
+  controller:TempusController;
+  asset:IERC20;
+  yieldToken:ERC20;
+  maturityTime:number;
+  estimatedYield:number;
+  shareNames:TempusSharesNames;
+  exchangeRatePrec:number; // result of `PoolAdapter.exchangeRatePrecision()`
+}
+
+/**
+ * Describes a TempusPool adapter for an underlying protocol (Aave, Lido, ...)
+ * New adapters are plugged in via `registerPoolAdapter()` without modifying TempusPool
+ */
+export interface PoolAdapter {
+  /** Pool type identifier, must match the bytes32 `protocolName()` of the adapter contract */
+  type:PoolType;
+
+  /** Name of the adapter contract, eg "AaveTempusPool" */
+  contractName:string;
+
+  /** True if the pool accepts/requires Ether on deposits */
+  acceptsEther:boolean;
+
+  /**
+   * @param assetDecimals Decimals of the backing token
+   * @returns Decimal precision of the pool's interest rate
+   */
+  exchangeRatePrecision(assetDecimals:number): number;
+
+  /**
+   * @returns Constructor arguments of the adapter contract, every adapter has its own constructor
+   */
+  constructorArgs(p:PoolAdapterDeployParams): any[];
+}
+
+// All registered adapters, keyed by PoolType
+const POOL_ADAPTERS: { [type:string]: PoolAdapter } = {};
+
+/**
+ * Registers a new pool adapter, replacing any previous adapter with the same PoolType
+ */
+export function registerPoolAdapter(adapter:PoolAdapter): void {
+  POOL_ADAPTERS[adapter.type] = adapter;
+}
+
+/**
+ * @returns The registered adapter for this PoolType
+ */
+export function getPoolAdapter(type:PoolType): PoolAdapter {
+  const adapter = POOL_ADAPTERS[type];
+  if (!adapter) {
+    throw new Error("Unsupported PoolType "+type);
+  }
+  return adapter;
+}
+
+/**
+ * @returns All registered pool adapters
+ */
+export function getPoolAdapters(): PoolAdapter[] {
+  return Object.values(POOL_ADAPTERS);
+}
+
+/**
+ * @returns PoolType matching the bytes32 `protocolName()` of a TempusPool
+ */
+export function parsePoolType(protocolName:BytesLike): PoolType {
+  const name = utils.parseBytes32String(protocolName);
+  const adapter = getPoolAdapters().find(a => a.type === name);
+  if (!adapter) {
+    throw new Error("Unsupported TempusPool protocolName "+name);
+  }
+  return adapter.type;
+}
+
+/**
+ * Constructor arguments shared by all TempusPool adapters
+ * @param rateArgs Interest rate arguments, which differ between adapters
+ * @param extraArgs Adapter specific arguments following the fees config
+ */
+function tempusPoolArgs(p:PoolAdapterDeployParams, rateArgs:any[], extraArgs:any[] = []): any[] {
+  return [
+    p.yieldToken.address,
+    p.controller.address,
+    p.maturityTime,
+    ...rateArgs,
+    /*principalsData*/{
+      name: p.shareNames.principalName,
+      symbol: p.shareNames.principalSymbol
+    },
+    /*yieldsData*/{
+      name: p.shareNames.yieldName,
+      symbol: p.shareNames.yieldSymbol
+    },
+    /*maxFeeSetup:*/{
+      depositPercent:      p.yieldToken.toBigNum(0.5), // fees are stored in YBT
+      earlyRedeemPercent:  p.yieldToken.toBigNum(1.0),
+      matureRedeemPercent: p.yieldToken.toBigNum(0.5)
+    },
+    ...extraArgs
+  ];
+}
+
+registerPoolAdapter({
+  type: PoolType.Aave,
+  contractName: "AaveTempusPool",
+  acceptsEther: false,
+  exchangeRatePrecision: () => 18, // AaveTempusPool converts 1e27 LiquidityIndex to 1e18 interestRate
+  constructorArgs: (p) => tempusPoolArgs(p, [parseDecimal(p.estimatedYield, p.exchangeRatePrec)])
+});
+
+registerPoolAdapter({
+  type: PoolType.Lido,
+  contractName: "LidoTempusPool",
+  acceptsEther: true,
+  exchangeRatePrecision: () => 18, // Lido is always 1e18 thanks to ETH
+  constructorArgs: (p) => tempusPoolArgs(p,
+    [parseDecimal(p.estimatedYield, p.exchangeRatePrec)],
+    ["0x0000000000000000000000000000000000000000" /* hardcoded referrer */]
+  )
+});
+
+registerPoolAdapter({
+  type: PoolType.Compound,
+  contractName: "CompoundTempusPool",
+  acceptsEther: false,
+  // exchange rate precision = 18 - 8 + Underlying Token Decimals
+  exchangeRatePrecision: (assetDecimals) => 10 + assetDecimals,
+  constructorArgs: (p) => tempusPoolArgs(p, [
+    parseDecimal(1.0, p.exchangeRatePrec),
+    parseDecimal(p.estimatedYield, p.exchangeRatePrec)
+  ])
+});
+
+registerPoolAdapter({
+  type: PoolType.Yearn,
+  contractName: "YearnTempusPool",
+  acceptsEther: false,
+  // exchange rate precision = Underlying Token Decimals
+  exchangeRatePrecision: (assetDecimals) => assetDecimals,
+  constructorArgs: (p) => tempusPoolArgs(p, [parseDecimal(p.estimatedYield, p.exchangeRatePrec)])
+});
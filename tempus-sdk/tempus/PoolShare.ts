@@ -1,12 +1,18 @@
-import { Contract } from "ethers";
-import { Numberish } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { Contract, providers } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { ERC20OwnerMintable } from "@tempus-labs/utils/ts/token/ERC20OwnerMintable";
+import { ContractLoader } from "./ContractLoader";
 
 export enum ShareKind {
   Principal = "PrincipalShare",
   Yield = "YieldShare",
 }
 
+/**
+ * Wrapper around PrincipalShare and YieldShare
+ * View methods accept an optional `blockTag` for reading historical state
+ */
 export class PoolShare extends ERC20OwnerMintable {
   constructor(contractName:string, decimals:number, contract:Contract) {
     super(contractName, decimals, contract);
@@ -16,17 +22,18 @@ export class PoolShare extends ERC20OwnerMintable {
    * @param kind ShareKind.Principal or ShareKind.Yield
    * @param contractAddress Address of the contract
    * @param decimals Contract decimals
+   * @param loader Loads the contract, eg `abiLoader` or `hardhatLoader` of the `testing` subpath
    */
-  static async attach(kind:ShareKind, contractAddress:string, decimals:number): Promise<PoolShare> {
+  static async attach(kind:ShareKind, contractAddress:string, decimals:number, loader:ContractLoader): Promise<PoolShare> {
     const contractName = kind.toString();
-    const contract = await this.attachContract(contractName, contractAddress);
+    const contract = await loader(contractName, contractAddress);
     return new PoolShare(contractName, decimals, contract);
   }
 
   /**
    * @returns Updates and gets price per share as described in PoolShare.sol
    */
-  async getPricePerFullShare(): Promise<Numberish> {
+  async getPricePerFullShare(): Promise<Decimal> {
     // this transaction will update latest PricePerFullShare
     await this.contract.getPricePerFullShare();
     return this.getPricePerFullShareStored(); // fetch the stored PPS
@@ -35,7 +42,21 @@ export class PoolShare extends ERC20OwnerMintable {
   /**
    * @returns Stored price per share as described in PoolShare.sol
    */
-  async getPricePerFullShareStored(): Promise<Numberish> {
-    return this.fromBigNum(await this.contract.getPricePerFullShareStored());
+  async getPricePerFullShareStored(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.getPricePerFullShareStored({ blockTag }));
+  }
+
+  /**
+   * @returns Share balance of the user at the given block
+   */
+  async balanceOf(user:Addressable, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.balanceOf(addressOf(user), { blockTag }));
+  }
+
+  /**
+   * @returns Total supply of shares at the given block
+   */
+  async totalSupply(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.totalSupply({ blockTag }));
   }
 }
@@ -0,0 +1,275 @@
+import { BigNumber, Contract, PopulatedTransaction, Transaction, providers, utils } from "ethers";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish, toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { ContractBase, Signer, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { TempusPool } from "./TempusPool";
+import { TempusMarket } from "./TempusMarket";
+import { getPoolAdapter } from "./PoolAdapter";
+import { TransactionBuilder, sendTransactions } from "./TransactionBuilder";
+import { findDeploymentBlock, toTimestamp } from "./TempusController";
+import { ContractLoader, SignerOrProvider, abiLoader } from "./ContractLoader";
+
+/**
+ * Instructions for minting a position, amounts in decimals
+ */
+export interface MintParams {
+  leverageMultiplier:Numberish; // 0 for a fixed rate position, greater than 1 for a leveraged position
+  tokenAmountToDeposit:Numberish; // in BT or YBT
+  worstAcceptableCapitalsRate:Numberish; // worst rate of the internal Capitals <--> Yields swap
+  deadline:Date;
+  recipient:Addressable; // receives the position
+  isBackingToken:boolean;
+}
+
+/**
+ * Instructions for liquidating a position, amounts in decimals
+ */
+export interface BurnParams {
+  maxLeftoverShares:Numberish; // max TPS/TYS left if an early exit swap is needed
+  yieldsRate:Numberish; // base exchange rate of Yields, denominated in Capitals
+  maxSlippage:Numberish; // max change from `yieldsRate`, eg 0.03 for 3%
+  deadline:Date;
+  recipient:Addressable; // receives the liquidated tokens
+  toBackingToken:boolean;
+}
+
+export interface Position {
+  capitals:Decimal; // TPS owned by the position
+  yields:Decimal; // TYS owned by the position
+  amm:string; // address of the TempusAMM used to create the position, zero if burned
+}
+
+export interface MintedEvent {
+  minter:string;
+  recipient:string;
+  amm:string;
+  tokenId:number;
+  leverageMultiplier:Decimal;
+  tokenAmountDeposited:Decimal; // in BT or YBT
+  isBackingToken:boolean;
+  mintedShares:Decimal; // TPS and TYS minted before the swap
+  capitalsReceived:Decimal;
+  yieldsReceived:Decimal;
+}
+
+export interface BurnedEvent {
+  burner:string;
+  recipient:string;
+  tokenId:number;
+  liquidatedTokenAmount:Decimal; // in BT or YBT
+  toBackingToken:boolean;
+}
+
+/**
+ * Wrapper around PositionManager, which wraps leveraged and fixed rate positions into ERC721 tokens
+ */
+export class PositionManager extends ContractBase {
+  private static _contractName = "PositionManager";
+  private _deploymentBlock?:Promise<number>;
+
+  constructor(contract:Contract) {
+    super(PositionManager._contractName, 0, contract);
+  }
+
+  /**
+   * Deploys a new PositionManager
+   * @param controller The TempusController used for deposits and redemptions
+   */
+  static async deploy(
+    controller:Addressable,
+    name:string = "Tempus Positions",
+    symbol:string = "POSITION",
+    deployer?:Signer
+  ): Promise<PositionManager> {
+    return new PositionManager(await ContractBase.deployContractBy(
+      PositionManager._contractName, deployer, addressOf(controller), name, symbol
+    ));
+  }
+
+  /**
+   * Attaches to an already deployed PositionManager
+   * @param loader Loads the contract, eg `abiLoader` or `hardhatLoader` of the `testing` subpath
+   */
+  static async attach(address:string, loader:ContractLoader): Promise<PositionManager> {
+    return new PositionManager(await loader(PositionManager._contractName, address));
+  }
+
+  /**
+   * Connects to an already deployed PositionManager with the ABI bundled in the SDK, without hardhat
+   * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+   */
+  static async connect(address:string, signerOrProvider:SignerOrProvider): Promise<PositionManager> {
+    return PositionManager.attach(address, abiLoader(signerOrProvider));
+  }
+
+  /**
+   * Deposits into the pool and mints a position NFT, Ether is sent for BT deposits of Ether pools
+   * @param user User who is depositing
+   * @param pool The TempusPool and TempusAMM to create the position in
+   * @param params Instructions for position creation
+   */
+  async mint(user:Signer, pool:TempusMarket, params:MintParams): Promise<Transaction> {
+    return sendTransactions(user, await this.populateMint(user, pool, params));
+  }
+
+  async populateMint(user:Addressable, pool:TempusMarket, params:MintParams): Promise<PopulatedTransaction[]> {
+    const t = pool.tempus;
+    const token = params.isBackingToken ? t.asset : t.yieldBearing;
+    const ethValue = (params.isBackingToken && getPoolAdapter(t.type).acceptsEther) ? params.tokenAmountToDeposit : 0;
+    const builder = await new TransactionBuilder(user).allow(token, this, params.tokenAmountToDeposit);
+    return builder.call(this, "mint", [{
+      tempusAMM: pool.amm.address,
+      leverageMultiplier: toWei(params.leverageMultiplier),
+      tokenAmountToDeposit: token.toBigNum(params.tokenAmountToDeposit),
+      worstAcceptableCapitalsRate: t.principalShare.toBigNum(params.worstAcceptableCapitalsRate),
+      deadline: toTimestamp(params.deadline),
+      recipient: addressOf(params.recipient),
+      isBackingToken: params.isBackingToken
+    }], toWei(ethValue)).transactions;
+  }
+
+  /**
+   * Burns a position and liquidates its Capitals and Yields
+   * @param user Owner or approved operator of the position
+   * @param pool The TempusPool and TempusAMM of the position
+   * @param tokenId Position to burn
+   * @param params Instructions for position liquidation
+   */
+  async burn(user:Signer, pool:TempusMarket, tokenId:number, params:BurnParams): Promise<Transaction> {
+    return sendTransactions(user, await this.populateBurn(user, pool, tokenId, params));
+  }
+
+  async populateBurn(user:Addressable, pool:TempusMarket, tokenId:number, params:BurnParams): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "burn", [tokenId, encodeBurnParams(pool, params)]).transactions;
+  }
+
+  /**
+   * @param pool The TempusPool of the position, for share decimals
+   * @returns Capitals and Yields of the position, zero for burned positions
+   */
+  async position(tokenId:number, pool:TempusPool, blockTag?:providers.BlockTag): Promise<Position> {
+    const p = await this.contract.position(tokenId, { blockTag });
+    return {
+      capitals: pool.principalShare.toDecimal(p.capitals),
+      yields: pool.yieldShare.toDecimal(p.yields),
+      amm: p.tempusAMM
+    };
+  }
+
+  /**
+   * @returns Owner of the position, throws for burned positions
+   */
+  async ownerOf(tokenId:number, blockTag?:providers.BlockTag): Promise<string> {
+    return this.contract.ownerOf(tokenId, { blockTag });
+  }
+
+  /**
+   * @returns Number of positions owned by @param owner
+   */
+  async balanceOf(owner:Addressable, blockTag?:providers.BlockTag): Promise<number> {
+    return (await this.contract.balanceOf(addressOf(owner), { blockTag })).toNumber();
+  }
+
+  /**
+   * @returns Block number of the PositionManager deployment, the earliest block of its events
+   * @see findDeploymentBlock
+   */
+  async deploymentBlock(): Promise<number> {
+    if (this._deploymentBlock === undefined) {
+      this._deploymentBlock = findDeploymentBlock(this.contract);
+      this._deploymentBlock.catch(() => { this._deploymentBlock = undefined; });
+    }
+    return this._deploymentBlock;
+  }
+
+  /**
+   * PositionManager is not ERC721Enumerable, so token ids are found from Transfer events
+   * @param owner Current owner of the positions
+   * @param fromBlock First block to search, default is the PositionManager deployment block
+   * @returns Ids of the positions currently owned by @param owner, in ascending order
+   */
+  async tokensOf(owner:Addressable, fromBlock?:providers.BlockTag): Promise<number[]> {
+    const ownerAddress = utils.getAddress(addressOf(owner));
+    const events = await this.contract.queryFilter(
+      this.contract.filters.Transfer(null, ownerAddress), fromBlock ?? await this.deploymentBlock()
+    );
+    const candidates = [...new Set(events.map(e => (e.args.tokenId as BigNumber).toNumber()))];
+    const owners = await Promise.all(candidates.map(id => this.ownerOf(id).catch(() => undefined)));
+    return candidates.filter((_, i) => owners[i] !== undefined && utils.getAddress(owners[i]) === ownerAddress).sort((a, b) => a - b);
+  }
+
+  /**
+   * Decodes the Minted event of a mint transaction
+   * @param pool The TempusPool and TempusAMM of the position, for token decimals
+   */
+  async mintedEvent(tx:Transaction, pool:TempusMarket): Promise<MintedEvent> {
+    const args = await this.eventArgs(tx, "Minted");
+    const t = pool.tempus;
+    return {
+      minter: args.minter,
+      recipient: args.recipient,
+      amm: args.tempusAmm,
+      tokenId: args.tokenId.toNumber(),
+      leverageMultiplier: decimal(utils.formatEther(args.leverageMultiplier), 18),
+      tokenAmountDeposited: (args.isBackingToken ? t.asset : t.yieldBearing).toDecimal(args.tokenAmountDeposited),
+      isBackingToken: args.isBackingToken,
+      mintedShares: t.principalShare.toDecimal(args.mintedShares),
+      capitalsReceived: t.principalShare.toDecimal(args.capitalsReceived),
+      yieldsReceived: t.yieldShare.toDecimal(args.yieldsReceived)
+    };
+  }
+
+  /**
+   * Decodes the Burned event of a burn transaction
+   * @param pool The TempusPool and TempusAMM of the position, for token decimals
+   */
+  async burnedEvent(tx:Transaction, pool:TempusMarket): Promise<BurnedEvent> {
+    const args = await this.eventArgs(tx, "Burned");
+    const t = pool.tempus;
+    return {
+      burner: args.burner,
+      recipient: args.recipient,
+      tokenId: args.tokenId.toNumber(),
+      liquidatedTokenAmount: (args.toBackingToken ? t.asset : t.yieldBearing).toDecimal(args.liquidatedTokenAmount),
+      toBackingToken: args.toBackingToken
+    };
+  }
+
+  private async eventArgs(tx:Transaction, eventName:string): Promise<utils.Result> {
+    const receipt = await this.contract.provider.waitForTransaction(tx.hash);
+    const fragment = this.contract.interface.getEvent(eventName);
+    const topic = this.contract.interface.getEventTopic(fragment);
+    const log = receipt.logs.find(l => l.address === this.address && l.topics[0] === topic);
+    if (!log) {
+      throw new Error("Transaction " + tx.hash + " did not emit PositionManager." + eventName);
+    }
+    return this.contract.interface.decodeEventLog(fragment, log.data, log.topics);
+  }
+}
+
+/**
+ * IPositionManager.BurnParams struct, amounts in contract precision
+ */
+export interface ContractBurnParams {
+  maxLeftoverShares:BigNumber;
+  yieldsRate:BigNumber;
+  maxSlippage:BigNumber;
+  deadline:number;
+  recipient:string;
+  toBackingToken:boolean;
+}
+
+/**
+ * @returns IPositionManager.BurnParams struct in contract precision
+ */
+export function encodeBurnParams(pool:TempusMarket, params:BurnParams): ContractBurnParams {
+  const t = pool.tempus;
+  return {
+    maxLeftoverShares: t.principalShare.toBigNum(params.maxLeftoverShares),
+    yieldsRate: t.principalShare.toBigNum(params.yieldsRate),
+    maxSlippage: toWei(params.maxSlippage),
+    deadline: toTimestamp(params.deadline),
+    recipient: addressOf(params.recipient),
+    toBackingToken: params.toBackingToken
+  };
+}
@@ -0,0 +1,186 @@
+import { Transaction } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { TempusPool } from "./TempusPool";
+import { TempusMarket } from "./TempusMarket";
+import { TempusController, DEFAULT_SLIPPAGE_BPS, DEFAULT_DEADLINE_SECONDS } from "./TempusController";
+import { TempusDeployments } from "./TempusDeployments";
+import { Stats } from "./Stats";
+import { sendTransactions } from "./TransactionBuilder";
+
+/**
+ * How the redeemed YBT is deposited into the successor pool
+ */
+export enum RolloverStrategy {
+  Deposit = "Deposit", // keep both TPS and TYS, same as the manual rollover
+  Fix = "Fix", // swap TYS for TPS, @see TempusController.depositAndFixWithSlippage
+  Leverage = "Leverage", // swap TPS for TYS, @see TempusController.depositAndLeverageWithSlippage
+  ProvideLiquidity = "ProvideLiquidity", // @see TempusController.depositAndProvideLiquidity
+}
+
+export interface RolloverOptions {
+  strategy?:RolloverStrategy; // default is RolloverStrategy.Deposit
+  stats?:Stats; // required for the Fix and Leverage quotes
+  leverageMultiplier?:Numberish; // required for RolloverStrategy.Leverage
+  slippageBps?:number;
+  deadlineSeconds?:number;
+}
+
+/**
+ * Amounts moved at each step of a rollover, all in the user's wallet
+ */
+export interface RolloverReport {
+  from:TempusMarket;
+  to:TempusMarket;
+  strategy:RolloverStrategy;
+  finalized:boolean; // true if the rollover had to finalize `from`
+  redeemedLpTokens:Decimal; // LP tokens of `from` exited
+  redeemedPrincipals:Decimal; // TPS of `from` redeemed, excluding the ones from the exited LP tokens
+  redeemedYields:Decimal; // TYS of `from` redeemed, excluding the ones from the exited LP tokens
+  yieldBearingAmount:Decimal; // YBT received from `from` and deposited into `to`
+  principalsReceived:Decimal; // TPS of `to`
+  yieldsReceived:Decimal; // TYS of `to`
+  lpTokensReceived:Decimal; // LP tokens of `to`
+  transactions:Transaction[]; // in execution order
+}
+
+/**
+ * Finds the pool to roll a matured pool over into: the earliest maturity
+ * which has not matured yet, for the same YieldBearingToken
+ * @param pool The matured pool
+ * @param candidates Pools with their AMMs, or a network's address book
+ */
+export async function findRolloverTarget(pool:TempusPool, candidates:TempusMarket[]|TempusDeployments): Promise<TempusMarket> {
+  const markets = (candidates instanceof TempusDeployments) ? candidates.markets : candidates;
+
+  let target:TempusMarket|undefined;
+  let targetMaturity:bigint|undefined;
+  for (const market of markets) {
+    const t = market.tempus;
+    if (t.address === pool.address || t.yieldBearing.address !== pool.yieldBearing.address || await t.matured()) {
+      continue;
+    }
+    const maturity = await t.maturityTime();
+    if (targetMaturity === undefined || maturity < targetMaturity) {
+      target = market;
+      targetMaturity = maturity;
+    }
+  }
+  if (!target) {
+    throw new Error("No active TempusPool of YieldBearingToken " + pool.yieldBearing.address + " to roll " + pool.address + " over into");
+  }
+  return target;
+}
+
+/**
+ * Rolls all positions of @param user in a matured pool over into @param to:
+ * finalizes `from` if needed, exits its LP tokens and redeems its TPS and TYS to YBT
+ * with `exitAmmGivenLpAndRedeem`, then deposits the YBT into `to` with the chosen strategy.
+ * Amounts are measured from the user's balances, so only the redeemed YBT is deposited
+ * @param from The matured pool and its AMM
+ * @param to Pool of the same YieldBearingToken, @see findRolloverTarget
+ */
+export async function rollover(
+  controller:TempusController,
+  user:Signer,
+  from:TempusMarket,
+  to:TempusMarket,
+  options:RolloverOptions = {}
+): Promise<RolloverReport> {
+  const strategy = options.strategy ?? RolloverStrategy.Deposit;
+  const slippageBps = options.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+  const deadlineSeconds = options.deadlineSeconds ?? DEFAULT_DEADLINE_SECONDS;
+  if (to.tempus.yieldBearing.address !== from.tempus.yieldBearing.address) {
+    throw new Error("Can not roll " + from.tempus.address + " over into " + to.tempus.address + " with a different YieldBearingToken");
+  }
+  if ((strategy === RolloverStrategy.Fix || strategy === RolloverStrategy.Leverage) && !options.stats) {
+    throw new Error("RolloverStrategy." + strategy + " requires Stats for the slippage quote");
+  }
+  if (strategy === RolloverStrategy.Leverage && options.leverageMultiplier === undefined) {
+    throw new Error("RolloverStrategy.Leverage requires leverageMultiplier");
+  }
+
+  const transactions:Transaction[] = [];
+  if (!await from.tempus.matured()) {
+    throw new Error("TempusPool " + from.tempus.address + " has not matured yet");
+  }
+  const finalized = !await from.tempus.isFinalized();
+  if (finalized) {
+    transactions.push(await mined(user, sendTransactions(user, await from.tempus.populateFinalize(user), { pool: from.tempus, amm: from.amm })));
+  }
+
+  const ybt = from.tempus.yieldBearing;
+  const [lpTokens, principals, yields, ybtBefore] = await Promise.all([
+    from.amm.balanceOf(user),
+    from.tempus.principalShare.balanceOf(user),
+    from.tempus.yieldShare.balanceOf(user),
+    ybt.balanceOf(user)
+  ]);
+  if (lpTokens.isZero() && principals.isZero() && yields.isZero()) {
+    throw new Error("Nothing to roll over from TempusPool " + from.tempus.address);
+  }
+
+  // after maturity all shares are redeemed as they are, so no leftover shares or swap slippage apply
+  transactions.push(await mined(user, controller.exitAmmGivenLpAndRedeem(
+    from, user, lpTokens.toString(), principals.toString(), yields.toString(), /*toBacking*/false, /*maxLeftoverShares*/0
+  )));
+  const yieldBearingAmount = (await ybt.balanceOf(user)).sub(ybtBefore);
+
+  const [principalsBefore, yieldsBefore, lpBefore] = await successorBalances(to, user);
+  const amount = yieldBearingAmount.toString();
+  switch (strategy) {
+    case RolloverStrategy.Deposit:
+      transactions.push(await mined(user, controller.depositYieldBearing(user, to.tempus, amount, user)));
+      break;
+    case RolloverStrategy.Fix:
+      transactions.push(await mined(user, controller.depositAndFixWithSlippage(
+        options.stats, to, user, amount, /*isBackingToken*/false, slippageBps, deadlineSeconds
+      ).then(r => r.transaction)));
+      break;
+    case RolloverStrategy.Leverage:
+      transactions.push(await mined(user, controller.depositAndLeverageWithSlippage(
+        options.stats, to, user, amount, /*isBackingToken*/false, options.leverageMultiplier, slippageBps, deadlineSeconds
+      ).then(r => r.transaction)));
+      break;
+    case RolloverStrategy.ProvideLiquidity:
+      transactions.push(await mined(user, controller.depositAndProvideLiquidity(to, user, amount, /*isBackingToken*/false)));
+      break;
+  }
+  const [principalsAfter, yieldsAfter, lpAfter] = await successorBalances(to, user);
+
+  return {
+    from: from,
+    to: to,
+    strategy: strategy,
+    finalized: finalized,
+    redeemedLpTokens: lpTokens,
+    redeemedPrincipals: principals,
+    redeemedYields: yields,
+    yieldBearingAmount: yieldBearingAmount,
+    principalsReceived: principalsAfter.sub(principalsBefore),
+    yieldsReceived: yieldsAfter.sub(yieldsBefore),
+    lpTokensReceived: lpAfter.sub(lpBefore),
+    transactions: transactions
+  };
+}
+
+/**
+ * Waits until @param tx is mined, every step reads the balances left by the previous one
+ */
+async function mined(user:Signer, tx:Promise<Transaction>): Promise<Transaction> {
+  const sent = await tx;
+  const receipt = await user.provider.waitForTransaction(sent.hash);
+  if (receipt.status === 0) {
+    throw new Error("Rollover transaction " + sent.hash + " reverted");
+  }
+  return sent;
+}
+
+async function successorBalances(to:TempusMarket, user:Signer): Promise<[Decimal, Decimal, Decimal]> {
+  return Promise.all([
+    to.tempus.principalShare.balanceOf(user),
+    to.tempus.yieldShare.balanceOf(user),
+    to.amm.balanceOf(user)
+  ]);
+}
@@ -0,0 +1,117 @@
+import { BigNumber, utils } from "ethers";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish, parseDecimal } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { PoolSnapshot } from "./TempusPool";
+
+/**
+ * Inputs of the TempusPool share price formulas
+ */
+export interface SharePriceParams {
+  initialInterestRate:Numberish;
+  interestRate:Numberish; // current (or hypothetical) interest rate of the underlying protocol
+  maturityInterestRate?:Numberish; // only set once the pool has been finalized
+  estimatedYield:Numberish; // initial estimated yield of the pool, eg 0.1 for +10%
+  startTime:number;
+  maturityTime:number;
+  exceptionalHaltTime?:number|null; // null if not set
+  timestamp:number; // block timestamp at which the prices are calculated
+}
+
+/**
+ * Share prices calculated by `calculateSharePrices`
+ */
+export interface SharePrices {
+  principal:Decimal; // price of one TPS in BT
+  yield:Decimal; // price of one TYS in BT
+  currentYield:Decimal; // yield since the start of the pool, relative to 1, eg 1.05 for +5%
+  estimatedYield:Decimal; // estimated yield at maturity, relative to 1
+  matured:boolean;
+}
+
+// Fixed256xVar.mulfV
+function mulf(a:bigint, b:bigint, one:bigint): bigint {
+  return (a * b) / one;
+}
+
+// Fixed256xVar.divfV
+function divf(a:bigint, b:bigint, one:bigint): bigint {
+  return (a * one) / b;
+}
+
+function toDecimal(value:bigint, decimals:number): Decimal {
+  return decimal(utils.formatUnits(BigNumber.from(value.toString()), decimals), decimals);
+}
+
+/**
+ * Calculates TPS and TYS prices with the same fixed point formulas as TempusPool.sol,
+ * so results match `pricePerPrincipalShareStored()` and `pricePerYieldShareStored()` exactly
+ *
+ *   pricePerPrincipal = currentYield / estimatedYield
+ *   pricePerYield = currentYield * (estimatedYield - 1) / estimatedYield
+ *
+ * If the estimated yield is negative, TYS are worthless and TPS take the whole current yield.
+ * After maturity the estimated yield equals the current yield,
+ * which is capped by the maturity interest rate once the pool is finalized.
+ *
+ * @param p Pool parameters and the (possibly hypothetical) interest rate
+ * @param exchangeRatePrec Interest rate precision of the pool, @see TempusPool.exchangeRatePrec
+ * @param shareDecimals Decimals of TPS/TYS, which are the same as backing token decimals
+ */
+export function calculateSharePrices(p:SharePriceParams, exchangeRatePrec:number, shareDecimals:number): SharePrices {
+  const one = BigInt(10) ** BigInt(exchangeRatePrec);
+  const initialRate = BigInt(parseDecimal(p.initialInterestRate, exchangeRatePrec));
+  const rate = BigInt(parseDecimal(p.interestRate, exchangeRatePrec));
+  const maturityRate = BigInt(parseDecimal(p.maturityInterestRate ?? 0, exchangeRatePrec));
+  const initialEstimatedYield = BigInt(parseDecimal(p.estimatedYield, exchangeRatePrec));
+
+  const haltTime = p.exceptionalHaltTime ?? Number.MAX_SAFE_INTEGER;
+  const matured = p.timestamp >= p.maturityTime || p.timestamp >= haltTime;
+
+  const effectiveRate = (matured && maturityRate !== BigInt(0) && maturityRate < rate) ? maturityRate : rate;
+  const currentYield = divf(effectiveRate, initialRate, one);
+
+  let estimatedYield = currentYield;
+  if (!matured) {
+    const timeToMaturity = BigInt(Math.max(p.maturityTime - p.timestamp, 0));
+    const poolDuration = BigInt(p.maturityTime - p.startTime);
+    const timeLeft = divf(timeToMaturity, poolDuration, one);
+    estimatedYield = currentYield + mulf(timeLeft, initialEstimatedYield, one);
+  }
+
+  let principalPrice:bigint, yieldPrice:bigint;
+  if (estimatedYield < one) { // estimate for negative yield
+    principalPrice = currentYield;
+    yieldPrice = BigInt(0);
+  } else {
+    principalPrice = divf(currentYield, estimatedYield, one);
+    yieldPrice = divf(mulf(estimatedYield - one, currentYield, one), estimatedYield, one);
+  }
+
+  // interestRateToSharePrice() of all adapters drops the extra rate precision
+  const toSharePrecision = BigInt(10) ** BigInt(Math.max(exchangeRatePrec - shareDecimals, 0));
+  return {
+    principal: toDecimal(principalPrice / toSharePrecision, shareDecimals),
+    yield: toDecimal(yieldPrice / toSharePrecision, shareDecimals),
+    currentYield: toDecimal(currentYield, exchangeRatePrec),
+    estimatedYield: toDecimal(estimatedYield, exchangeRatePrec),
+    matured: matured
+  };
+}
+
+/**
+ * @param snapshot Pool state, @see TempusPool.snapshot
+ * @param estimatedYield Initial estimated yield the pool was deployed with (not readable from the contract)
+ * @returns Share price parameters of the pool at the snapshot block, with the stored interest rate
+ */
+export function sharePriceParamsOf(snapshot:PoolSnapshot, estimatedYield:Numberish): SharePriceParams {
+  return {
+    initialInterestRate: snapshot.initialInterestRate.toString(),
+    interestRate: snapshot.currentInterestRate.toString(),
+    maturityInterestRate: snapshot.maturityInterestRate.toString(),
+    estimatedYield: estimatedYield,
+    startTime: Number(snapshot.startTime),
+    maturityTime: Number(snapshot.maturityTime),
+    exceptionalHaltTime: snapshot.exceptionalHaltTime === null ? null : Number(snapshot.exceptionalHaltTime),
+    timestamp: snapshot.blockTimestamp
+  };
+}
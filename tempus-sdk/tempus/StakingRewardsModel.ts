@@ -0,0 +1,149 @@
+import { BigNumber, utils } from "ethers";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish, parseDecimal } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+
+/**
+ * Rewards distribution parameters of a StakingRewards contract, amounts in decimals
+ */
+export interface StakingRewardsParams {
+  totalIncentiveSize:Numberish; // rewards distributed over the whole duration
+  rewardsDuration:number; // seconds
+  maxEarlyWithdrawalFee:Numberish; // fee when claiming at the start, eg 0.1 for 10%
+  otherStakedShares:Numberish; // shares staked by everyone else during the whole stake window
+}
+
+/**
+ * A single stake, times are in seconds since the rewards distribution started
+ */
+export interface StakeWindow {
+  shares:Numberish;
+  start:number;
+  end:number; // when the rewards are claimed
+}
+
+/**
+ * Rewards of a stake if they are claimed at `elapsed`
+ */
+export interface RewardsProjection {
+  elapsed:number; // seconds since the rewards distribution started
+  grossRewards:Decimal; // rewards before the early withdrawal fee
+  effectiveFee:Decimal; // early withdrawal fee at `elapsed`, eg 0.1 for 10%
+  feeAmount:Decimal;
+  netRewards:Decimal; // rewards actually received
+}
+
+const ONE = BigInt(10) ** BigInt(18);
+
+// FixedPoint.mulDown
+function mulDown(a:bigint, b:bigint): bigint {
+  return (a * b) / ONE;
+}
+
+// FixedPoint.mulUp
+function mulUp(a:bigint, b:bigint): bigint {
+  const product = a * b;
+  return product === BigInt(0) ? product : (product - BigInt(1)) / ONE + BigInt(1);
+}
+
+// FixedPoint.divDown
+function divDown(a:bigint, b:bigint): bigint {
+  return (a * ONE) / b;
+}
+
+function fixed(value:Numberish): bigint {
+  return BigInt(parseDecimal(value, 18));
+}
+
+function toDecimal(value:bigint): Decimal {
+  return decimal(utils.formatEther(BigNumber.from(value.toString())), 18);
+}
+
+// StakingMath.R_t
+function rewardAt(elapsed:number, totalIncentiveSize:bigint, duration:number): bigint {
+  const d = BigInt(duration);
+  return (totalIncentiveSize * (BigInt(2) * (d - BigInt(elapsed)))) / (d * (d - BigInt(1)));
+}
+
+// StakingMath.R_t_summation
+function rewardSum(a:number, b:number, totalIncentiveSize:bigint, duration:number): bigint {
+  if (a > b) {
+    throw new Error("Rewards timeframe start " + a + " is after its end " + b);
+  }
+  const rewards = rewardAt(a, totalIncentiveSize, duration) + rewardAt(b, totalIncentiveSize, duration);
+  return (BigInt(b - a + 1) * rewards) / BigInt(2);
+}
+
+// StakingRewards.effectiveEarlyWithdrawalFee
+function feeAt(elapsed:number, maxEarlyWithdrawalFee:bigint, duration:number): bigint {
+  const timeRemaining = BigInt(duration - Math.min(Math.max(elapsed, 0), duration));
+  return (maxEarlyWithdrawalFee * timeRemaining) / BigInt(duration);
+}
+
+/**
+ * Rewards decrease linearly from 2 * totalIncentiveSize / rewardsDuration to 0 at expiration
+ * @returns Rewards distributed in the second at @param elapsed, same as StakingMath.R_t
+ */
+export function rewardRateAt(elapsed:number, totalIncentiveSize:Numberish, rewardsDuration:number): Decimal {
+  const t = Math.min(Math.max(elapsed, 0), rewardsDuration);
+  return toDecimal(rewardAt(t, fixed(totalIncentiveSize), rewardsDuration));
+}
+
+/**
+ * @returns Early withdrawal fee when claiming at @param elapsed, same as StakingRewards.effectiveEarlyWithdrawalFee
+ */
+export function effectiveEarlyWithdrawalFeeAt(elapsed:number, maxEarlyWithdrawalFee:Numberish, rewardsDuration:number): Decimal {
+  return toDecimal(feeAt(elapsed, fixed(maxEarlyWithdrawalFee), rewardsDuration));
+}
+
+/**
+ * Projects the rewards of a stake with the same fixed point math as StakingRewards.sol,
+ * assuming nobody else stakes or unstakes during the stake window.
+ * Staking or claiming after expiration is treated as happening at expiration.
+ */
+export function projectRewards(params:StakingRewardsParams, stake:StakeWindow): RewardsProjection {
+  const duration = params.rewardsDuration;
+  if (duration <= 1) {
+    throw new Error("rewardsDuration must be greater than 1 second, got " + duration);
+  }
+  if (stake.start < 0 || stake.end < stake.start) {
+    throw new Error("Invalid stake window [" + stake.start + ", " + stake.end + "]");
+  }
+
+  const shares = fixed(stake.shares);
+  const start = Math.min(stake.start, duration);
+  const end = Math.min(stake.end, duration);
+
+  // rewardPerToken() accrued between the stake and the claim, all of it is paid out to stakers
+  const totalShares = fixed(params.otherStakedShares) + shares;
+  const rewardPerShare = totalShares === BigInt(0) ? totalShares : divDown(
+    rewardSum(start, end, fixed(params.totalIncentiveSize), duration), totalShares
+  );
+  const gross = mulDown(shares, rewardPerShare);
+
+  const fee = feeAt(end, fixed(params.maxEarlyWithdrawalFee), duration);
+  const feeAmount = mulUp(gross, fee);
+  return {
+    elapsed: stake.end,
+    grossRewards: toDecimal(gross),
+    effectiveFee: toDecimal(fee),
+    feeAmount: toDecimal(feeAmount),
+    netRewards: toDecimal(gross - feeAmount)
+  };
+}
+
+/**
+ * Projects the rewards of a stake if they were claimed at every @param interval seconds,
+ * useful for charting how waiting trades fewer new rewards for a lower early withdrawal fee
+ * @returns Projections from `stake.start` until `stake.end` (inclusive)
+ */
+export function projectRewardsOverTime(params:StakingRewardsParams, stake:StakeWindow, interval:number): RewardsProjection[] {
+  if (interval <= 0) {
+    throw new Error("interval must be positive, got " + interval);
+  }
+  const projections:RewardsProjection[] = [];
+  for (let t = stake.start; t < stake.end; t += interval) {
+    projections.push(projectRewards(params, { shares: stake.shares, start: stake.start, end: t }));
+  }
+  projections.push(projectRewards(params, stake));
+  return projections;
+}
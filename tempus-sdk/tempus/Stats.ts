@@ -1,8 +1,23 @@
-import { Contract } from "ethers";
+import { Contract, providers, utils } from "ethers";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
 import { Numberish, toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
-import { ContractBase } from "@tempus-labs/utils/ts/utils/ContractBase";
-import { PoolTestFixture } from "./PoolTestFixture";
+import { ContractBase, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { TempusMarket } from "./TempusMarket";
+import { TempusPool } from "./TempusPool";
+import { SignerOrProvider, abiLoader } from "./ContractLoader";
 
+/**
+ * A TempusPool with the Chainlink aggregator quoting its BackingToken, eg ETH/USD for an stETH pool
+ */
+export interface PoolPriceFeed {
+  pool:TempusPool;
+  aggregator:Addressable;
+}
+
+/**
+ * Wrapper around Stats
+ * Estimate methods accept an optional `blockTag` for reading historical state
+ */
 export class Stats extends ContractBase {
   constructor(contract:Contract) {
     super("Stats", 18, contract);
@@ -12,16 +27,24 @@ export class Stats extends ContractBase {
     return new Stats(await ContractBase.deployContract("Stats"));
   }
 
+  /**
+   * Connects to an already deployed Stats with the ABI bundled in the SDK, without hardhat
+   * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+   */
+  static async connect(address:string, signerOrProvider:SignerOrProvider): Promise<Stats> {
+    return new Stats(await abiLoader(signerOrProvider)("Stats", address));
+  }
+
   /**
    * @param amount Amount of BackingTokens or YieldBearingTokens that would be deposited
    * @param isBackingToken If true, @param amount is in BackingTokens, otherwise YieldBearingTokens
    * @return Amount of Principals (TPS) and Yields (TYS), scaled as 1e18 decimals.
    *         TPS and TYS are minted in 1:1 ratio, hence a single return value
    */
-  async estimatedMintedShares(pool:PoolTestFixture, amount:Numberish, isBackingToken:boolean): Promise<Numberish> {
+  async estimatedMintedShares(pool:TempusMarket, amount:Numberish, isBackingToken:boolean, blockTag?:providers.BlockTag): Promise<Decimal> {
     const t = pool.tempus;
     const depositAmount = isBackingToken ? t.asset.toBigNum(amount) : t.yieldBearing.toBigNum(amount);
-    return t.principalShare.fromBigNum(await this.contract.estimatedMintedShares(t.address, depositAmount, isBackingToken));
+    return t.principalShare.toDecimal(await this.contract.estimatedMintedShares(t.address, depositAmount, isBackingToken, { blockTag }));
   }
 
   /**
@@ -30,15 +53,16 @@ export class Stats extends ContractBase {
    * @param toBackingToken If true, redeem amount is estimated in BackingTokens instead of YieldBearingTokens
    * @return YBT or BT amount
    */
-  async estimatedRedeem(pool:PoolTestFixture, principals:Numberish, yields:Numberish, toBackingToken:boolean): Promise<Numberish> {
+  async estimatedRedeem(pool:TempusMarket, principals:Numberish, yields:Numberish, toBackingToken:boolean, blockTag?:providers.BlockTag): Promise<Decimal> {
     const t = pool.tempus;
     const p = toBackingToken ? t.asset : t.yieldBearing;
-    return p.fromBigNum(
+    return p.toDecimal(
       await this.contract.estimatedRedeem(
         t.address,
         t.principalShare.toBigNum(principals),
         t.yieldShare.toBigNum(yields),
-        toBackingToken
+        toBackingToken,
+        { blockTag }
       )
     );
   }
@@ -50,31 +74,38 @@ export class Stats extends ContractBase {
    * @return YBT or BT amount
    */
   async estimatedDepositAndProvideLiquidity(
-    pool:PoolTestFixture,
+    pool:TempusMarket,
     amount:Numberish,
-    isBackingToken:boolean
-  ): Promise<[Numberish,Numberish,Numberish]> {
+    isBackingToken:boolean,
+    blockTag?:providers.BlockTag
+  ): Promise<[Decimal,Decimal,Decimal]> {
     const t = pool.tempus;
     const tuple = await this.contract.estimatedDepositAndProvideLiquidity(
-      pool.amm.address, pool.tempus.address, isBackingToken ? t.toBigNum(amount) : t.yieldBearing.toBigNum(amount), isBackingToken
+      pool.amm.address, pool.tempus.address, isBackingToken ? t.toBigNum(amount) : t.yieldBearing.toBigNum(amount), isBackingToken, { blockTag }
     );
     return [
-      pool.amm.fromBigNum(tuple[0]),
-      t.principalShare.fromBigNum(tuple[1]),
-      t.yieldShare.fromBigNum(tuple[2])
+      pool.amm.toDecimal(tuple[0]),
+      t.principalShare.toDecimal(tuple[1]),
+      t.yieldShare.toDecimal(tuple[2])
     ];
   }
   
-  async estimatedDepositAndFix(pool:PoolTestFixture, amount:Numberish, isBackingToken:boolean): Promise<Numberish> {
+  async estimatedDepositAndFix(pool:TempusMarket, amount:Numberish, isBackingToken:boolean, blockTag?:providers.BlockTag): Promise<Decimal> {
     const t = pool.tempus;
-    return t.principalShare.fromBigNum(
+    return t.principalShare.toDecimal(
       await this.contract.estimatedDepositAndFix(
-        pool.amm.address, pool.tempus.address, isBackingToken ? t.asset.toBigNum(amount) : t.yieldBearing.toBigNum(amount), isBackingToken
+        pool.amm.address, pool.tempus.address, isBackingToken ? t.asset.toBigNum(amount) : t.yieldBearing.toBigNum(amount), isBackingToken, { blockTag }
       )
     );
   }
 
-  async estimatedDepositAndLeverage(pool:PoolTestFixture, amount:Numberish, isBackingToken:boolean, leverage:Numberish): Promise<[Numberish,Numberish]> {
+  async estimatedDepositAndLeverage(
+    pool:TempusMarket,
+    amount:Numberish,
+    isBackingToken:boolean,
+    leverage:Numberish,
+    blockTag?:providers.BlockTag
+  ): Promise<[Decimal,Decimal]> {
     const t = pool.tempus;
     
     const principalsYields = await this.contract.estimatedDepositAndLeverage(
@@ -82,22 +113,24 @@ export class Stats extends ContractBase {
       pool.amm.address, 
       toWei(leverage),
       isBackingToken ? t.asset.toBigNum(amount) : t.yieldBearing.toBigNum(amount), 
-      isBackingToken
+      isBackingToken,
+      { blockTag }
     );
 
     return [
-      t.principalShare.fromBigNum(principalsYields.principals), 
-      t.yieldShare.fromBigNum(principalsYields.yields)
+      t.principalShare.toDecimal(principalsYields.principals), 
+      t.yieldShare.toDecimal(principalsYields.yields)
     ];
   }
 
   async estimateExitAndRedeem(
-    pool:PoolTestFixture,
+    pool:TempusMarket,
     lpTokens:Numberish,
     principals:Numberish,
     yields:Numberish,
-    toBackingToken:boolean
-  ): Promise<Numberish> {
+    toBackingToken:boolean,
+    blockTag?:providers.BlockTag
+  ): Promise<Decimal> {
     const t = pool.tempus;
     const p = toBackingToken ? t : t.yieldBearing;
     const r = await this.contract.estimateExitAndRedeem(
@@ -107,19 +140,21 @@ export class Stats extends ContractBase {
       t.principalShare.toBigNum(principals),
       t.yieldShare.toBigNum(yields),
       t.principalShare.decimals == 18 ? t.principalShare.toBigNum("0.00001") : t.principalShare.toBigNum("0.01"),
-      toBackingToken
+      toBackingToken,
+      { blockTag }
     );
-    return p.fromBigNum(r.tokenAmount);
+    return p.toDecimal(r.tokenAmount);
   }
 
   async estimateExitAndRedeemGivenStakedOut(
-    pool:PoolTestFixture,
+    pool:TempusMarket,
     principals:Numberish,
     yields:Numberish,
     principalStaked:Numberish,
     yieldsStaked:Numberish,
-    toBackingToken:boolean
-  ): Promise<{ tokenAmount:Numberish, lpTokensRedeemed:Numberish }> {
+    toBackingToken:boolean,
+    blockTag?:providers.BlockTag
+  ): Promise<{ tokenAmount:Decimal, lpTokensRedeemed:Decimal }> {
     const t = pool.tempus;
     const p = toBackingToken ? t : t.yieldBearing;
     const r = await this.contract.estimateExitAndRedeemGivenStakedOut(
@@ -129,11 +164,51 @@ export class Stats extends ContractBase {
       t.yieldShare.toBigNum(yields),
       t.principalShare.toBigNum(principalStaked), // lpPrincipals
       t.yieldShare.toBigNum(yieldsStaked), // lpYields
-      toBackingToken
+      toBackingToken,
+      { blockTag }
     );
     return { 
-      tokenAmount: p.fromBigNum(r.tokenAmount),
-      lpTokensRedeemed: pool.amm.fromBigNum(r.lpTokensRedeemed)
+      tokenAmount: p.toDecimal(r.tokenAmount),
+      lpTokensRedeemed: pool.amm.toDecimal(r.lpTokensRedeemed)
     };
   }
+
+  /**
+   * @returns Total value locked in @param pool, denominated in its BackingTokens
+   */
+  async totalValueLockedInBackingTokens(pool:TempusPool, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return pool.asset.toDecimal(await this.contract.totalValueLockedInBackingTokens(pool.address, { blockTag }));
+  }
+
+  /**
+   * @param aggregator Chainlink aggregator quoting the BackingToken of @param pool
+   * @returns Total value locked in @param pool, denominated in the quote currency of @param aggregator
+   */
+  async totalValueLockedAtGivenRate(pool:TempusPool, aggregator:Addressable, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return pool.asset.toDecimal(
+      await this.contract.totalValueLockedAtGivenRate(pool.address, addressOf(aggregator), { blockTag })
+    );
+  }
+
+  /**
+   * @returns Latest answer of the Chainlink @param aggregator, eg 3000.0 for ETH/USD
+   */
+  async getRate(aggregator:Addressable, blockTag?:providers.BlockTag): Promise<Decimal> {
+    const { rate, rateDenominator } = await this.contract.getRate(addressOf(aggregator), { blockTag });
+    const decimals = rateDenominator.toString().length - 1; // denominator is 10**decimals
+    return decimal(utils.formatUnits(rate, decimals), decimals);
+  }
+
+  /**
+   * Protocol-wide TVL, all pools are read at the same block
+   * @param feeds Pools and aggregators quoting their BackingTokens in the same currency
+   * @returns Sum of the pools' TVL in the common quote currency, in 18 decimals
+   */
+  async totalValueLocked(feeds:PoolPriceFeed[], blockTag?:providers.BlockTag): Promise<Decimal> {
+    const block = await this.contract.provider.getBlock(blockTag ?? "latest");
+    const tvls = await Promise.all(
+      feeds.map(f => this.totalValueLockedAtGivenRate(f.pool, f.aggregator, block.number))
+    );
+    return tvls.reduce((sum:Decimal, tvl:Decimal) => sum.add(decimal(tvl.toString(), 18)), decimal(0, 18));
+  }
 }
@@ -1,10 +1,11 @@
-import { Contract, Transaction } from "ethers";
+import { Contract, PopulatedTransaction, Transaction, providers } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
 import { Numberish, toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
 import { ContractBase, Signer, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
-import { blockTimestamp, setEvmTime } from "@tempus-labs/utils/ts/utils/Utils";
-import { TempusController } from "./TempusController";
+import { TempusController, toTimestamp } from "./TempusController";
 import { PoolShare } from "./PoolShare";
+import { TransactionBuilder, sendTransactions } from "./TransactionBuilder";
 
 export const SECOND = 1;
 export const MINUTE = SECOND * 60;
@@ -15,6 +16,27 @@ export const MONTH = DAY * 30;
 
 export const AMP_PRECISION = 1e3;
 
+/**
+ * ITempusAMM.SwapType
+ */
+export enum SwapType {
+  GIVEN_IN = 0,
+  GIVEN_OUT = 1
+}
+
+/**
+ * Amplification of a TempusAMM, @see TempusAMM.getAmplificationParam
+ */
+export interface AmplificationParam {
+  value:number; // current amplification, with AMP_PRECISION
+  isUpdating:boolean;
+  precision:number;
+}
+
+/**
+ * Wrapper around TempusAMM
+ * View methods accept an optional `blockTag` for reading historical state
+ */
 export class TempusAMM extends ERC20 {
   token0: ERC20;
   token1: ERC20;
@@ -63,24 +85,25 @@ export class TempusAMM extends ERC20 {
   /**
    * @dev Returns the amount of token0/token1 the users' LP tokens represent.
    */
-  async compositionBalanceOf(user:Addressable): Promise<{token0: Numberish, token1: Numberish}> {
-    const [token0, token1] = await this.contract.compositionBalanceOf(addressOf(user));
-    return {token0: this.token0.fromBigNum(token0), token1: this.token1.fromBigNum(token1)};
+  async compositionBalanceOf(user:Addressable, blockTag?:providers.BlockTag): Promise<{token0: Decimal, token1: Decimal}> {
+    const [token0, token1] = await this.contract.compositionBalanceOf(addressOf(user), { blockTag });
+    return {token0: this.token0.toDecimal(token0), token1: this.token1.toDecimal(token1)};
   }
 
-  async getExpectedReturnGivenIn(inAmount: Numberish, tokenIn: PoolShare) : Promise<Numberish> {
-    return tokenIn.fromBigNum(await this.contract.getExpectedReturnGivenIn(tokenIn.toBigNum(inAmount), tokenIn.address));
+  async getExpectedReturnGivenIn(inAmount: Numberish, tokenIn: PoolShare, blockTag?:providers.BlockTag) : Promise<Decimal> {
+    return tokenIn.toDecimal(await this.contract.getExpectedReturnGivenIn(tokenIn.toBigNum(inAmount), tokenIn.address, { blockTag }));
   }
 
-  async getTokensOutGivenLPIn(inAmount: Numberish): Promise<{token0Out:number, token1Out:number}> {
-    const p = await this.contract.getTokensOutGivenLPIn(this.toBigNum(inAmount));
-    return {token0Out: +this.token0.fromBigNum(p.token0Out), token1Out: +this.token1.fromBigNum(p.token1Out)};
+  async getTokensOutGivenLPIn(inAmount: Numberish, blockTag?:providers.BlockTag): Promise<{token0Out:Decimal, token1Out:Decimal}> {
+    const p = await this.contract.getTokensOutGivenLPIn(this.toBigNum(inAmount), { blockTag });
+    return {token0Out: this.token0.toDecimal(p.token0Out), token1Out: this.token1.toDecimal(p.token1Out)};
   }
 
-  async getLPTokensOutForTokensIn(token0AmountIn:Numberish, token1AmountIn:Numberish): Promise<Numberish> {
-    return +this.fromBigNum(await this.contract.getLPTokensOutForTokensIn(
+  async getLPTokensOutForTokensIn(token0AmountIn:Numberish, token1AmountIn:Numberish, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.getLPTokensOutForTokensIn(
       this.token0.toBigNum(token0AmountIn),
-      this.token1.toBigNum(token1AmountIn)
+      this.token1.toBigNum(token1AmountIn),
+      { blockTag }
     ));
   }
 
@@ -90,95 +113,188 @@ export class TempusAMM extends ERC20 {
    * @param token1Out amount of Token1 to withdraw
    * @return lpTokens Amount of Lp tokens that user would redeem
    */
-  async getLPTokensInGivenTokensOut(token0Out:Numberish, token1Out:Numberish): Promise<Numberish> {
-    return this.fromBigNum(await this.contract.getLPTokensInGivenTokensOut(
+  async getLPTokensInGivenTokensOut(token0Out:Numberish, token1Out:Numberish, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.getLPTokensInGivenTokensOut(
       this.token0.toBigNum(token0Out),
-      this.token1.toBigNum(token1Out)
+      this.token1.toBigNum(token1Out),
+      { blockTag }
     ));
   }
 
+  /**
+   * @returns LP token balance of the user at the given block
+   */
+  async balanceOf(user:Addressable, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.balanceOf(addressOf(user), { blockTag }));
+  }
+
+  /**
+   * @returns Total supply of LP tokens at the given block
+   */
+  async totalSupply(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.totalSupply({ blockTag }));
+  }
+
   async provideLiquidity(from: Signer, token0Balance: Number, token1Balance: Number): Promise<void> {
-    await this.token0.approve(from, this.address, token0Balance);
-    await this.token1.approve(from, this.address, token1Balance);
-    await this.connect(from).join(this.token0.toBigNum(token0Balance), this.token1.toBigNum(token1Balance), 0, from.address);
+    await sendTransactions(from, await this.populateProvideLiquidity(from, token0Balance, token1Balance), { amm: this });
+  }
+
+  async populateProvideLiquidity(from: Addressable, token0Balance: Number, token1Balance: Number): Promise<PopulatedTransaction[]> {
+    const builder = new TransactionBuilder(from);
+    await builder.allow(this.token0, this, token0Balance);
+    await builder.allow(this.token1, this, token1Balance);
+    return builder
+      .call(this, "join", [this.token0.toBigNum(token0Balance), this.token1.toBigNum(token1Balance), 0, addressOf(from)])
+      .transactions;
   }
 
   async exitPoolExactLpAmountIn(from: Signer, lpTokensAmount: Number): Promise<void> {
-    await this.connect(from).exitGivenLpIn(this.toBigNum(lpTokensAmount), 0, 0, from.address);
+    await sendTransactions(from, await this.populateExitPoolExactLpAmountIn(from, lpTokensAmount), { amm: this });
+  }
+
+  async populateExitPoolExactLpAmountIn(from: Addressable, lpTokensAmount: Number): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(from)
+      .call(this, "exitGivenLpIn", [this.toBigNum(lpTokensAmount), 0, 0, addressOf(from)])
+      .transactions;
   }
 
   async exitPoolExactAmountOut(from:Signer, amountsOut:Number[], maxAmountLpIn:Number): Promise<void> {
-    await this.connect(from).exitGivenTokensOut(
+    await sendTransactions(from, await this.populateExitPoolExactAmountOut(from, amountsOut, maxAmountLpIn), { amm: this });
+  }
+
+  async populateExitPoolExactAmountOut(from:Addressable, amountsOut:Number[], maxAmountLpIn:Number): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(from).call(this, "exitGivenTokensOut", [
       this.token0.toBigNum(amountsOut[0]), 
       this.token1.toBigNum(amountsOut[1]), 
       this.toBigNum(maxAmountLpIn), 
-      from.address
-    );
+      addressOf(from)
+    ]).transactions;
   }
 
   async swapGivenInOrOut(from: Signer, assetIn: string, assetOut: string, amount: Numberish, givenOut?:boolean): Promise<void> {
-    await this.token0.approve(from, this.address, await this.token0.balanceOf(from));
-    await this.token1.approve(from, this.address, await this.token1.balanceOf(from));
-    const SWAP_KIND = (givenOut !== undefined && givenOut) ? 1 : 0;
+    await sendTransactions(from, await this.populateSwapGivenInOrOut(from, assetIn, assetOut, amount, givenOut), { amm: this });
+  }
 
+  async populateSwapGivenInOrOut(from: Addressable, assetIn: string, assetOut: string, amount: Numberish, givenOut?:boolean): Promise<PopulatedTransaction[]> {
+    const SWAP_KIND = (givenOut !== undefined && givenOut) ? 1 : 0;
     const minimumReturn = (givenOut !== undefined && givenOut) ? this.token0.toBigNum(1000000000) : 1;
-    const deadline = await blockTimestamp() * 2; // not anytime soon 
-    await this.connect(from).swap(assetIn, this.token0.toBigNum(amount), minimumReturn, SWAP_KIND, deadline);
+    const deadline = await this.blockTimestamp() * 2; // not anytime soon 
+
+    // only the input token is spent: the exact amount when given in,
+    // up to the whole balance when given out, since the price may move before execution
+    const tokenIn = (assetIn.toLowerCase() === this.token0.address.toLowerCase()) ? this.token0 : this.token1;
+    const builder = new TransactionBuilder(from);
+    await builder.allow(tokenIn, this, SWAP_KIND === 0 ? amount : await tokenIn.balanceOf(from));
+    return builder
+      .call(this, "swap", [assetIn, this.token0.toBigNum(amount), minimumReturn, SWAP_KIND, deadline])
+      .transactions;
+  }
+
+  /**
+   * Swaps an exact amount of `tokenIn` for the other share of this AMM
+   * @note TempusController only swaps internally (depositAndFix, depositAndLeverage),
+   *       so standalone swaps go to the AMM directly
+   * @param from User who is swapping
+   * @param tokenIn Principals or Yields to sell
+   * @param amountIn Exact amount of `tokenIn` to sell
+   * @param minAmountOut Minimum amount of the other share to receive, otherwise reverts with SwapGivenTokensInSlippage
+   * @param deadline A timestamp by which the swap must be completed, otherwise it would revert
+   */
+  async swapGivenIn(from:Signer, tokenIn:PoolShare, amountIn:Numberish, minAmountOut:Numberish, deadline:Date): Promise<Transaction> {
+    return sendTransactions(from, await this.populateSwapGivenIn(from, tokenIn, amountIn, minAmountOut, deadline), { amm: this });
+  }
+
+  async populateSwapGivenIn(from:Addressable, tokenIn:PoolShare, amountIn:Numberish, minAmountOut:Numberish, deadline:Date): Promise<PopulatedTransaction[]> {
+    const tokenOut = this.otherToken(tokenIn);
+    const builder = await new TransactionBuilder(from).allow(tokenIn, this, amountIn);
+    return builder.call(this, "swap", [
+      tokenIn.address, tokenIn.toBigNum(amountIn), tokenOut.toBigNum(minAmountOut), SwapType.GIVEN_IN, toTimestamp(deadline)
+    ]).transactions;
+  }
+
+  /**
+   * Swaps `tokenIn` for an exact amount of the other share of this AMM
+   * @param from User who is swapping
+   * @param tokenIn Principals or Yields to sell
+   * @param amountOut Exact amount of the other share to receive
+   * @param maxAmountIn Maximum amount of `tokenIn` to sell, otherwise reverts with SwapGivenTokensOutSlippage
+   * @param deadline A timestamp by which the swap must be completed, otherwise it would revert
+   */
+  async swapGivenOut(from:Signer, tokenIn:PoolShare, amountOut:Numberish, maxAmountIn:Numberish, deadline:Date): Promise<Transaction> {
+    return sendTransactions(from, await this.populateSwapGivenOut(from, tokenIn, amountOut, maxAmountIn, deadline), { amm: this });
+  }
+
+  async populateSwapGivenOut(from:Addressable, tokenIn:PoolShare, amountOut:Numberish, maxAmountIn:Numberish, deadline:Date): Promise<PopulatedTransaction[]> {
+    const tokenOut = this.otherToken(tokenIn);
+    const builder = await new TransactionBuilder(from).allow(tokenIn, this, maxAmountIn);
+    return builder.call(this, "swap", [
+      tokenIn.address, tokenOut.toBigNum(amountOut), tokenIn.toBigNum(maxAmountIn), SwapType.GIVEN_OUT, toTimestamp(deadline)
+    ]).transactions;
+  }
+
+  /**
+   * @returns The share of this AMM which is not @param token
+   */
+  private otherToken(token:PoolShare): ERC20 {
+    if (token.address === this.token0.address) {
+      return this.token1;
+    } else if (token.address === this.token1.address) {
+      return this.token0;
+    }
+    throw new Error("Token " + token.address + " is not traded by TempusAMM " + this.address);
+  }
+
+  private async blockTimestamp(): Promise<number> {
+    return (await this.contract.provider.getBlock("latest")).timestamp;
   }
 
   async startAmplificationUpdate(rawTargetAmp: number, oneAmpUpdateTime: number): Promise<Transaction> {
     const ampParam = await this.getAmplificationParam();
 
-    this.targetAmp = Math.trunc(+rawTargetAmp * +ampParam.precision);
+    this.targetAmp = Math.trunc(+rawTargetAmp * ampParam.precision);
     this.oneAmpUpdateTime = oneAmpUpdateTime;
-    this.startedAmpUpdateTime = await blockTimestamp();
-    this.startAmp = +ampParam.value;
+    this.startedAmpUpdateTime = await this.blockTimestamp();
+    this.startAmp = ampParam.value;
 
     const ampDiff = (this.targetAmp  > this.startAmp) ? (this.targetAmp  - this.startAmp) : (this.startAmp - this.targetAmp );
  
-    const endTime = this.startedAmpUpdateTime + Math.trunc(ampDiff / +ampParam.precision) * oneAmpUpdateTime;
+    const endTime = this.startedAmpUpdateTime + Math.trunc(ampDiff / ampParam.precision) * oneAmpUpdateTime;
 
     return this.contract.startAmplificationParameterUpdate(this.targetAmp , endTime);
   }
 
-  async forwardToAmplification(rawAmpValue: number): Promise<void> {
-    let targetTimestamp: number;
+  /**
+   * @param rawTargetAmp Target amplification, without AMP_PRECISION
+   * @param endTime Timestamp when the amplification update ends
+   */
+  async populateStartAmplificationUpdate(owner: Addressable, rawTargetAmp: number, endTime: number): Promise<PopulatedTransaction[]> {
     const ampParam = await this.getAmplificationParam();
-    const ampValue = Math.trunc(+rawAmpValue * +ampParam.precision);
-
-    if (this.startAmp == ampValue) {
-      targetTimestamp = 0;
-    }
-    else if (this.targetAmp > this.startAmp) {
-      if (ampValue > this.targetAmp || ampValue < this.startAmp) { 
-        throw console.error("Wrong amplification update!"); 
-      }
-      targetTimestamp = this.startedAmpUpdateTime + (ampValue - this.startAmp) / +ampParam.precision * this.oneAmpUpdateTime;
-    } else {
-      if (ampValue < this.targetAmp || ampValue > this.startAmp) { 
-        throw console.error("Wrong amplification update!"); 
-      }
-      targetTimestamp = this.startedAmpUpdateTime + (this.startAmp - ampValue) / +ampParam.precision * this.oneAmpUpdateTime;
-    }
-
-    if (targetTimestamp > 0) {
-      return setEvmTime(targetTimestamp);
-    }
+    const targetAmp = Math.trunc(+rawTargetAmp * ampParam.precision);
+    return new TransactionBuilder(owner).call(this, "startAmplificationParameterUpdate", [targetAmp, endTime]).transactions;
   }
 
   async stopAmplificationUpdate(): Promise<Transaction> {
     return this.contract.stopAmplificationParameterUpdate();
   }
 
-  async getAmplificationParam(): Promise<{value:Numberish, isUpdating:Numberish, precision:Numberish}> {
-    return this.contract.getAmplificationParameter();
+  async populateStopAmplificationUpdate(owner: Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(owner).call(this, "stopAmplificationParameterUpdate", []).transactions;
+  }
+
+  async getAmplificationParam(blockTag?:providers.BlockTag): Promise<AmplificationParam> {
+    const { value, isUpdating, precision } = await this.contract.getAmplificationParameter({ blockTag });
+    return { value: value.toNumber(), isUpdating: isUpdating, precision: precision.toNumber() };
   }
 
-  async swapFeePercentage(): Promise<Numberish> {
-    return this.fromBigNum(await this.contract.swapFeePercentage());
+  async swapFeePercentage(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.swapFeePercentage({ blockTag }));
   }
 
   async setSwapFeePercentage(newSwapFeePercentage: number): Promise<Transaction> {
     return this.contract.setSwapFeePercentage(this.toBigNum(newSwapFeePercentage));
   }
+
+  async populateSetSwapFeePercentage(owner: Addressable, newSwapFeePercentage: number): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(owner).call(this, "setSwapFeePercentage", [this.toBigNum(newSwapFeePercentage)]).transactions;
+  }
 }
@@ -1,9 +1,85 @@
-import { Contract, Transaction } from "ethers";
+import { BigNumber, Contract, Event, EventFilter, PopulatedTransaction, Transaction, providers, utils } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
 import { Numberish, toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
 import { ContractBase, Signer, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
-import { PoolType, TempusPool } from "./TempusPool";
-import { PoolTestFixture } from "./PoolTestFixture";
-import { constructPermit } from "@tempus-labs/utils/ts/token/PermitUtils";
+import { TempusPool } from "./TempusPool";
+import { getPoolAdapter } from "./PoolAdapter";
+import { TempusMarket } from "./TempusMarket";
+import { TransactionBuilder, sendTransactions } from "./TransactionBuilder";
+import { ERC20PermitSignature, permitOrApprove } from "./Allowances";
+import { Stats } from "./Stats";
+import { ContractLoader, SignerOrProvider, abiLoader } from "./ContractLoader";
+
+/**
+ * Filters for querying TempusController event history
+ */
+export interface ControllerEventQuery {
+  pool?:TempusPool; // only events of this pool
+  user?:Addressable; // depositor or redeemer
+  recipient?:Addressable;
+  fromBlock?:providers.BlockTag; // default: block of the TempusController deployment, @see TempusController.deploymentBlock
+  toBlock?:providers.BlockTag; // default: "latest"
+  blockRange?:number; // max blocks per getLogs request, default: 10000
+  pools?:TempusPool[]; // already attached pools, other pools are attached on demand
+}
+
+interface ControllerEventBase {
+  pool:TempusPool;
+  recipient:string;
+  yieldTokenAmount:Decimal; // in YBT
+  backingTokenValue:Decimal; // in BT
+  interestRate:Decimal;
+  fee:Decimal; // in YBT
+  blockNumber:number;
+  transactionHash:string;
+  logIndex:number;
+}
+
+export interface DepositEvent extends ControllerEventBase {
+  depositor:string;
+  shareAmounts:Decimal; // TPS and TYS minted
+}
+
+export interface RedemptionEvent extends ControllerEventBase {
+  redeemer:string;
+  principalShareAmount:Decimal;
+  yieldShareAmount:Decimal;
+  isEarlyRedeem:boolean;
+}
+
+/**
+ * Outcome of a depositAndFix estimated by `TempusController.quoteDepositAndFix`
+ */
+export interface DepositAndFixQuote {
+  mintedShares:Decimal; // TPS and TYS minted by the deposit
+  principals:Decimal; // TPS received after swapping all TYS
+  tysRate:Decimal; // estimated TYS rate, denominated in TPS
+  minTYSRate:Decimal; // worst accepted TYS rate after slippage tolerance
+  deadline:Date;
+}
+
+/**
+ * Outcome of a depositAndLeverage estimated by `TempusController.quoteDepositAndLeverage`
+ */
+export interface DepositAndLeverageQuote {
+  mintedShares:Decimal; // TPS and TYS minted by the deposit
+  principals:Decimal; // TPS left after buying the leveraged TYS
+  yields:Decimal; // TYS received, including the minted TYS
+  capitalsRate:Decimal; // estimated TYS bought per TPS
+  minCapitalsRate:Decimal; // worst accepted capitals rate after slippage tolerance
+  deadline:Date;
+}
+
+/**
+ * Sent transaction together with the quote it was built from
+ */
+export interface QuotedTransaction<Quote> {
+  transaction:Transaction;
+  quote:Quote;
+}
+
+export const DEFAULT_SLIPPAGE_BPS = 50; // 0.5%
+export const DEFAULT_DEADLINE_SECONDS = 20 * 60;
 
 /**
  * Wrapper around TempusController
@@ -11,6 +87,7 @@ import { constructPermit } from "@tempus-labs/utils/ts/token/PermitUtils";
 export class TempusController extends ContractBase {
   private static _contractName = "TempusController";
   private static _instance:TempusController;
+  private _deploymentBlock?:Promise<number>;
   
   constructor(contractName: string, controller: Contract) {
     super(contractName, 18, controller);
@@ -35,6 +112,29 @@ export class TempusController extends ContractBase {
     return new TempusController(TempusController._contractName, controller);
   }
 
+  /**
+   * Attaches to an already deployed TempusController
+   * @param controllerAddress Address of the deployed TempusController contract
+   * @param loader Loads the contract, eg `abiLoader` or `hardhatLoader` of the `testing` subpath
+   * @param deploymentBlock Block of the deployment if known, eg `receipt.blockNumber` of a hardhat-deploy file
+   */
+  static async attach(controllerAddress:string, loader:ContractLoader, deploymentBlock?:number): Promise<TempusController> {
+    const controller = new TempusController(TempusController._contractName, await loader(TempusController._contractName, controllerAddress));
+    if (deploymentBlock !== undefined) {
+      controller._deploymentBlock = Promise.resolve(deploymentBlock);
+    }
+    return controller;
+  }
+
+  /**
+   * Connects to an already deployed TempusController with the ABI bundled in the SDK, without hardhat
+   * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+   * @param deploymentBlock Block of the deployment if known, @see TempusController.attach
+   */
+  static async connect(controllerAddress:string, signerOrProvider:SignerOrProvider, deploymentBlock?:number): Promise<TempusController> {
+    return TempusController.attach(controllerAddress, abiLoader(signerOrProvider), deploymentBlock);
+  }
+
   /**
    * Address string of the owner who deployed TempusController
    */
@@ -49,7 +149,11 @@ export class TempusController extends ContractBase {
    * @param isValid Is the contract authorized or not?
    */
   async register(user:Signer, authorizedContract:string, isValid:boolean = true): Promise<void> {
-    await this.connect(user).register(authorizedContract, isValid);
+    await sendTransactions(user, await this.populateRegister(user, authorizedContract, isValid));
+  }
+
+  async populateRegister(user:Addressable, authorizedContract:string, isValid:boolean = true): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "register", [authorizedContract, isValid]).transactions;
   }
 
   /**
@@ -61,11 +165,14 @@ export class TempusController extends ContractBase {
    * @param ethValue value of ETH to send with the tx
    */
   async depositYieldBearing(user:Signer, pool: TempusPool, yieldBearingAmount:Numberish, recipient:Addressable = user, ethValue: Numberish = 0): Promise<Transaction> {
-    await pool.yieldBearing.approve(user, this.contract.address, yieldBearingAmount);
-    return this.connect(user).depositYieldBearing(
-      pool.address, pool.yieldBearing.toBigNum(yieldBearingAmount),
-      addressOf(recipient), { value: toWei(ethValue) }
-    );
+    return sendTransactions(user, await this.populateDepositYieldBearing(user, pool, yieldBearingAmount, recipient, ethValue), { pool: pool });
+  }
+
+  async populateDepositYieldBearing(user:Addressable, pool: TempusPool, yieldBearingAmount:Numberish, recipient:Addressable = user, ethValue: Numberish = 0): Promise<PopulatedTransaction[]> {
+    const builder = await new TransactionBuilder(user).allow(pool.yieldBearing, this, yieldBearingAmount);
+    return builder.call(this, "depositYieldBearing", [
+      pool.address, pool.yieldBearing.toBigNum(yieldBearingAmount), addressOf(recipient)
+    ], toWei(ethValue)).transactions;
   }
 
   /**
@@ -77,10 +184,14 @@ export class TempusController extends ContractBase {
   * @param ethValue value of ETH to send with the tx
   */
   async depositBacking(user:Signer, pool: TempusPool, backingAmount:Numberish, recipient?:Addressable, ethValue?: Numberish): Promise<Transaction> {
-    return this.connect(user).depositBacking(
-      pool.address, pool.asset.toBigNum(backingAmount), addressOf(recipient ?? user),
-      { value: toWei(pool.type === PoolType.Lido ? ethValue ?? backingAmount : ethValue ?? 0) }
-    );
+    return sendTransactions(user, await this.populateDepositBacking(user, pool, backingAmount, recipient, ethValue), { pool: pool });
+  }
+
+  async populateDepositBacking(user:Addressable, pool: TempusPool, backingAmount:Numberish, recipient?:Addressable, ethValue?: Numberish): Promise<PopulatedTransaction[]> {
+    const builder = await new TransactionBuilder(user).allow(pool.asset, this, backingAmount);
+    return builder.call(this, "depositBacking", [
+      pool.address, pool.asset.toBigNum(backingAmount), addressOf(recipient ?? user)
+    ], toWei(getPoolAdapter(pool.type).acceptsEther ? ethValue ?? backingAmount : ethValue ?? 0)).transactions;
   }
 
   /**
@@ -92,9 +203,13 @@ export class TempusController extends ContractBase {
    * @param recipient The recipient address (can be user)
    */
   async redeemToBacking(user:Signer, pool: TempusPool, principalAmount:Numberish, yieldAmount:Numberish, recipient:Addressable): Promise<Transaction> {
-    return this.connect(user).redeemToBacking(
+    return sendTransactions(user, await this.populateRedeemToBacking(user, pool, principalAmount, yieldAmount, recipient), { pool: pool });
+  }
+
+  async populateRedeemToBacking(user:Addressable, pool: TempusPool, principalAmount:Numberish, yieldAmount:Numberish, recipient:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "redeemToBacking", [
       pool.address, pool.principalShare.toBigNum(principalAmount), pool.yieldShare.toBigNum(yieldAmount), addressOf(recipient)
-    );
+    ]).transactions;
   }
 
   /**
@@ -106,16 +221,20 @@ export class TempusController extends ContractBase {
    * @param recipient The recipient address (can be user)
    */
   async redeemToYieldBearing(user:Signer, pool: TempusPool, principalAmount:Numberish, yieldAmount:Numberish, recipient:Addressable): Promise<Transaction> {
-    return this.connect(user).redeemToYieldBearing(
+    return sendTransactions(user, await this.populateRedeemToYieldBearing(user, pool, principalAmount, yieldAmount, recipient), { pool: pool });
+  }
+
+  async populateRedeemToYieldBearing(user:Addressable, pool: TempusPool, principalAmount:Numberish, yieldAmount:Numberish, recipient:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "redeemToYieldBearing", [
       pool.address, pool.principalShare.toBigNum(principalAmount), pool.yieldShare.toBigNum(yieldAmount), addressOf(recipient)
-    );
+    ]).transactions;
   }
 
   /**
    * Approves either BT or YBT transfer
    */
-  async approve(pool:PoolTestFixture, user:Signer, amount:Numberish, isBackingToken:boolean) {
-    const token = isBackingToken ? pool.asset : pool.ybt;
+  async approve(pool:TempusMarket, user:Signer, amount:Numberish, isBackingToken:boolean) {
+    const token = isBackingToken ? pool.tempus.asset : pool.tempus.yieldBearing;
     await token.approve(user, this.address, amount);
   }
 
@@ -129,17 +248,27 @@ export class TempusController extends ContractBase {
    * @param ethValue value of ETH to send with the tx
    */
   async depositAndProvideLiquidity(
-    pool: PoolTestFixture,
+    pool: TempusMarket,
     user: Signer,
     tokenAmount: Numberish,
     isBackingToken: boolean,
     ethValue: Numberish = 0
   ): Promise<Transaction> {
-    await this.approve(pool, user, tokenAmount, isBackingToken);
-    const amount = isBackingToken ? pool.tempus.asset.toBigNum(tokenAmount) : pool.ybt.toBigNum(tokenAmount);
-    return this.connect(user).depositAndProvideLiquidity(
-      pool.amm.address, pool.tempus.address, amount, isBackingToken, { value: toWei(ethValue) }
-    );
+    return sendTransactions(user, await this.populateDepositAndProvideLiquidity(pool, user, tokenAmount, isBackingToken, ethValue), { pool: pool.tempus, amm: pool.amm });
+  }
+
+  async populateDepositAndProvideLiquidity(
+    pool: TempusMarket,
+    user: Addressable,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    ethValue: Numberish = 0
+  ): Promise<PopulatedTransaction[]> {
+    const token = isBackingToken ? pool.tempus.asset : pool.tempus.yieldBearing;
+    const builder = await new TransactionBuilder(user).allow(token, this, tokenAmount);
+    return builder.call(this, "depositAndProvideLiquidity", [
+      pool.amm.address, pool.tempus.address, token.toBigNum(tokenAmount), isBackingToken
+    ], toWei(ethValue)).transactions;
   }
 
   /**
@@ -153,7 +282,7 @@ export class TempusController extends ContractBase {
    * @param deadline A timestamp by which the transaction must be completed, otherwise it would revert
    */
   async depositAndFix(
-    pool: PoolTestFixture,
+    pool: TempusMarket,
     user: Signer,
     tokenAmount: Numberish,
     isBackingToken: boolean,
@@ -161,17 +290,30 @@ export class TempusController extends ContractBase {
     ethValue: Numberish = 0,
     deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
   ): Promise<Transaction> {
-    await this.approve(pool, user, tokenAmount, isBackingToken);
-    const amount = isBackingToken ? pool.tempus.asset.toBigNum(tokenAmount) : pool.ybt.toBigNum(tokenAmount);
-    return this.connect(user).depositAndFix(
+    return sendTransactions(user, await this.populateDepositAndFix(
+      pool, user, tokenAmount, isBackingToken, minTYSRate, ethValue, deadline
+    ), { pool: pool.tempus, amm: pool.amm });
+  }
+
+  async populateDepositAndFix(
+    pool: TempusMarket,
+    user: Addressable,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    minTYSRate: Numberish,
+    ethValue: Numberish = 0,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<PopulatedTransaction[]> {
+    const token = isBackingToken ? pool.tempus.asset : pool.tempus.yieldBearing;
+    const builder = await new TransactionBuilder(user).allow(token, this, tokenAmount);
+    return builder.call(this, "depositAndFix", [
       pool.amm.address,
       pool.tempus.address,
-      amount,
+      token.toBigNum(tokenAmount),
       isBackingToken,
       pool.tempus.asset.toBigNum(minTYSRate),
-      parseInt((deadline.getTime() / 1000).toFixed(0)),
-      { value: toWei(ethValue) }
-    );
+      toTimestamp(deadline)
+    ], toWei(ethValue)).transactions;
   }
 
   /**
@@ -185,7 +327,7 @@ export class TempusController extends ContractBase {
    * @param deadline A timestamp by which the transaction must be completed, otherwise it would revert
    */
    async depositAndLeverage(
-    pool: PoolTestFixture,
+    pool: TempusMarket,
     user: Signer,
     tokenAmount: Numberish,
     isBackingToken: boolean,
@@ -194,22 +336,157 @@ export class TempusController extends ContractBase {
     ethValue: Numberish = 0,
     deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
   ): Promise<Transaction> {
-    await this.approve(pool, user, tokenAmount, isBackingToken);
-    const amount = isBackingToken ? pool.tempus.asset.toBigNum(tokenAmount) : pool.ybt.toBigNum(tokenAmount);
-    return this.connect(user).depositAndLeverage(
+    return sendTransactions(user, await this.populateDepositAndLeverage(
+      pool, user, tokenAmount, isBackingToken, leverageMultiplier, minCapitalsRate, ethValue, deadline
+    ), { pool: pool.tempus, amm: pool.amm });
+  }
+
+  async populateDepositAndLeverage(
+    pool: TempusMarket,
+    user: Addressable,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    leverageMultiplier: Numberish,
+    minCapitalsRate: Numberish,
+    ethValue: Numberish = 0,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<PopulatedTransaction[]> {
+    const token = isBackingToken ? pool.tempus.asset : pool.tempus.yieldBearing;
+    const builder = await new TransactionBuilder(user).allow(token, this, tokenAmount);
+    return builder.call(this, "depositAndLeverage", [
       pool.amm.address,
       pool.tempus.address,
       toWei(leverageMultiplier),
-      amount,
+      token.toBigNum(tokenAmount),
       isBackingToken,
       pool.tempus.asset.toBigNum(minCapitalsRate),
-      parseInt((deadline.getTime() / 1000).toFixed(0)),
-      { value: toWei(ethValue) }
+      toTimestamp(deadline)
+    ], toWei(ethValue)).transactions;
+  }
+
+  /**
+   * Estimates a depositAndFix with Stats and derives the minimum TYS rate from a slippage tolerance.
+   * The quote can be passed to `depositAndFix` or `populateDepositAndFix` as is
+   * @param stats Stats contract used for the estimates
+   * @param tokenAmount Amount of BT/YBT to deposit
+   * @param isBackingToken Specifies whether the deposited asset is YBT or BT
+   * @param slippageBps Tolerated decrease of the TYS rate, in basis points
+   * @param deadlineSeconds Deadline relative to the current block time
+   */
+  async quoteDepositAndFix(
+    stats: Stats,
+    pool: TempusMarket,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+    deadlineSeconds: number = DEFAULT_DEADLINE_SECONDS
+  ): Promise<DepositAndFixQuote> {
+    const block = await this.contract.provider.getBlock("latest");
+    const [mintedShares, principalsOut] = await Promise.all([
+      stats.estimatedMintedShares(pool, tokenAmount, isBackingToken, block.number),
+      stats.estimatedDepositAndFix(pool, tokenAmount, isBackingToken, block.number)
+    ]);
+    const tysRate = principalsOut.sub(mintedShares).div(mintedShares);
+    return {
+      mintedShares: mintedShares,
+      principals: principalsOut,
+      tysRate: tysRate,
+      minTYSRate: applySlippage(tysRate, slippageBps),
+      deadline: new Date((block.timestamp + deadlineSeconds) * 1000)
+    };
+  }
+
+  /**
+   * Deposits YBT/BT and fixes the yield, protected by the slippage tolerance instead of a hand-computed TYS rate
+   * @see quoteDepositAndFix
+   * @returns The sent transaction and the quote it was built from
+   */
+  async depositAndFixWithSlippage(
+    stats: Stats,
+    pool: TempusMarket,
+    user: Signer,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+    deadlineSeconds: number = DEFAULT_DEADLINE_SECONDS
+  ): Promise<QuotedTransaction<DepositAndFixQuote>> {
+    const quote = await this.quoteDepositAndFix(stats, pool, tokenAmount, isBackingToken, slippageBps, deadlineSeconds);
+    const transaction = await this.depositAndFix(
+      pool, user, tokenAmount, isBackingToken, quote.minTYSRate.toString(), etherValueOf(pool, tokenAmount, isBackingToken), quote.deadline
     );
+    return { transaction: transaction, quote: quote };
+  }
+
+  /**
+   * Estimates a depositAndLeverage with Stats and derives the minimum capitals rate from a slippage tolerance.
+   * The quote can be passed to `depositAndLeverage` or `populateDepositAndLeverage` as is
+   * @param stats Stats contract used for the estimates
+   * @param tokenAmount Amount of BT/YBT to deposit
+   * @param isBackingToken Specifies whether the deposited asset is YBT or BT
+   * @param leverageMultiplier Leverage of the yields, must be greater than 1
+   * @param slippageBps Tolerated decrease of the capitals rate, in basis points
+   * @param deadlineSeconds Deadline relative to the current block time
+   */
+  async quoteDepositAndLeverage(
+    stats: Stats,
+    pool: TempusMarket,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    leverageMultiplier: Numberish,
+    slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+    deadlineSeconds: number = DEFAULT_DEADLINE_SECONDS
+  ): Promise<DepositAndLeverageQuote> {
+    const block = await this.contract.provider.getBlock("latest");
+    const [mintedShares, [principalsOut, yieldsOut]] = await Promise.all([
+      stats.estimatedMintedShares(pool, tokenAmount, isBackingToken, block.number),
+      stats.estimatedDepositAndLeverage(pool, tokenAmount, isBackingToken, leverageMultiplier, block.number)
+    ]);
+
+    // TYS bought with the swapped TPS
+    const capitalsRate = yieldsOut.sub(mintedShares).div(mintedShares.sub(principalsOut));
+    return {
+      mintedShares: mintedShares,
+      principals: principalsOut,
+      yields: yieldsOut,
+      capitalsRate: capitalsRate,
+      minCapitalsRate: applySlippage(capitalsRate, slippageBps),
+      deadline: new Date((block.timestamp + deadlineSeconds) * 1000)
+    };
+  }
+
+  /**
+   * Deposits YBT/BT and leverages the yields, protected by the slippage tolerance instead of a hand-computed capitals rate
+   * @see quoteDepositAndLeverage
+   * @returns The sent transaction and the quote it was built from
+   */
+  async depositAndLeverageWithSlippage(
+    stats: Stats,
+    pool: TempusMarket,
+    user: Signer,
+    tokenAmount: Numberish,
+    isBackingToken: boolean,
+    leverageMultiplier: Numberish,
+    slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+    deadlineSeconds: number = DEFAULT_DEADLINE_SECONDS
+  ): Promise<QuotedTransaction<DepositAndLeverageQuote>> {
+    const quote = await this.quoteDepositAndLeverage(
+      stats, pool, tokenAmount, isBackingToken, leverageMultiplier, slippageBps, deadlineSeconds
+    );
+    const transaction = await this.depositAndLeverage(
+      pool,
+      user,
+      tokenAmount,
+      isBackingToken,
+      leverageMultiplier,
+      quote.minCapitalsRate.toString(),
+      etherValueOf(pool, tokenAmount, isBackingToken),
+      quote.deadline
+    );
+    return { transaction: transaction, quote: quote };
   }
 
   async exitAmmGivenAmountsOutAndEarlyRedeem(
-    pool: PoolTestFixture,
+    pool: TempusMarket,
     user: Signer,
     principals: Numberish,
     yields: Numberish,
@@ -219,28 +496,65 @@ export class TempusController extends ContractBase {
     withApprovals: Boolean = false,
     deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
   ): Promise<Transaction> {
-    const amm = pool.amm, t = pool.tempus;
-    const value = await amm.balanceOf(user.address)
+    const value = await pool.amm.balanceOf(user.address);
+    return sendTransactions(user, (await this.buildExitAmmGivenAmountsOutAndEarlyRedeem(
+      pool, user, withApprovals ? undefined : user, value, principals, yields, principalsLp, yieldsLp, toBackingToken, deadline
+    )).transactions, { pool: pool.tempus, amm: pool.amm });
+  }
 
-    if (withApprovals) {
-      await amm.approve(user, this, value);
-    }
+  /**
+   * Unsigned version of `exitAmmGivenAmountsOutAndEarlyRedeem`, using approvals where the allowance is insufficient
+   */
+  async populateExitAmmGivenAmountsOutAndEarlyRedeem(
+    pool: TempusMarket,
+    user: Addressable,
+    principals: Numberish,
+    yields: Numberish,
+    principalsLp: Numberish,
+    yieldsLp: Numberish,
+    toBackingToken: boolean
+  ): Promise<PopulatedTransaction[]> {
+    const value = await pool.amm.balanceOf(user);
+    return (await this.buildExitAmmGivenAmountsOutAndEarlyRedeem(
+      pool, user, undefined, value, principals, yields, principalsLp, yieldsLp, toBackingToken
+    )).transactions;
+  }
 
-    return this.connect(user).exitAmmGivenAmountsOutAndEarlyRedeem(
+  /**
+   * @param signer If set, permits are signed instead of approvals where the tokens support them
+   */
+  private async buildExitAmmGivenAmountsOutAndEarlyRedeem(
+    pool: TempusMarket,
+    user: Addressable,
+    signer: Signer|undefined,
+    lpTokens: Numberish,
+    principals: Numberish,
+    yields: Numberish,
+    principalsLp: Numberish,
+    yieldsLp: Numberish,
+    toBackingToken: boolean,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<TransactionBuilder> {
+    const amm = pool.amm, t = pool.tempus;
+    const builder = new TransactionBuilder(user);
+    const permits = compact([
+      await permitOrApprove(builder, amm, signer, this, lpTokens, deadline)
+    ]);
+    return builder.call(this, "exitAmmGivenAmountsOutAndEarlyRedeem", [
       amm.address,
-      pool.tempus.address,
-      withApprovals ? [] : [await constructPermit(amm, user, this, value, deadline)],
+      t.address,
+      permits,
       t.principalShare.toBigNum(principals),
       t.yieldShare.toBigNum(yields),
       t.principalShare.toBigNum(principalsLp),
       t.yieldShare.toBigNum(yieldsLp),
-      amm.toBigNum(value),
+      amm.toBigNum(lpTokens),
       toBackingToken
-    );
+    ]);
   }
 
   async exitAmmGivenLpAndRedeem(
-    pool:PoolTestFixture, 
+    pool:TempusMarket, 
     user: Signer, 
     lpTokens:Numberish, 
     principals:Numberish, 
@@ -252,24 +566,58 @@ export class TempusController extends ContractBase {
     maxSlippage: Numberish = 1,
     deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
   ): Promise<Transaction> {
-    const amm = pool.amm, t = pool.tempus, addr = addressOf(user);
+    return sendTransactions(user, (await this.buildExitAmmGivenLpAndRedeem(
+      pool, user, withApprovals ? undefined : user, lpTokens, principals, yields, toBacking, maxLeftoverShares, yieldsRate, maxSlippage, deadline
+    )).transactions, { pool: pool.tempus, amm: pool.amm });
+  }
 
-    if (withApprovals) {
-      await amm.approve(user, this.address, lpTokens);
-      await t.principalShare.approve(user, this.address, principals);
-      await t.yieldShare.approve(user, this.address, yields);
-    }
+  /**
+   * Unsigned version of `exitAmmGivenLpAndRedeem`, using approvals where the allowances are insufficient
+   */
+  async populateExitAmmGivenLpAndRedeem(
+    pool:TempusMarket, 
+    user: Addressable, 
+    lpTokens:Numberish, 
+    principals:Numberish, 
+    yields:Numberish, 
+    toBacking: boolean,
+    maxLeftoverShares: Numberish,
+    yieldsRate: Numberish = 1,
+    maxSlippage: Numberish = 1,
+    deadline: Date = new Date(8640000000000000) /// default is 9/12/275760 (no deadline)
+  ): Promise<PopulatedTransaction[]> {
+    return (await this.buildExitAmmGivenLpAndRedeem(
+      pool, user, undefined, lpTokens, principals, yields, toBacking, maxLeftoverShares, yieldsRate, maxSlippage, deadline
+    )).transactions;
+  }
 
-    return this.connect(user).exitAmmGivenLpAndRedeem(
+  /**
+   * @param signer If set, permits are signed instead of approvals where the tokens support them
+   */
+  private async buildExitAmmGivenLpAndRedeem(
+    pool:TempusMarket, 
+    user: Addressable, 
+    signer: Signer|undefined,
+    lpTokens:Numberish, 
+    principals:Numberish, 
+    yields:Numberish, 
+    toBacking: boolean,
+    maxLeftoverShares: Numberish,
+    yieldsRate: Numberish,
+    maxSlippage: Numberish,
+    deadline: Date
+  ): Promise<TransactionBuilder> {
+    const amm = pool.amm, t = pool.tempus;
+    const builder = new TransactionBuilder(user);
+    const permits = compact([
+      await permitOrApprove(builder, amm, signer, this, lpTokens, deadline),
+      await permitOrApprove(builder, t.principalShare, signer, this, principals, deadline),
+      await permitOrApprove(builder, t.yieldShare, signer, this, yields, deadline)
+    ]);
+    return builder.call(this, "exitAmmGivenLpAndRedeem", [
       amm.address,
-      pool.tempus.address,
-      withApprovals 
-        ? [] 
-        : [
-          await constructPermit(amm, user, this, lpTokens, deadline),
-          await constructPermit(t.principalShare, user, this, principals, deadline),
-          await constructPermit(t.yieldShare, user, this, yields, deadline)
-        ],
+      t.address,
+      permits,
       amm.toBigNum(lpTokens),
       amm.principalShare.toBigNum(principals),
       amm.yieldShare.toBigNum(yields),
@@ -281,11 +629,178 @@ export class TempusController extends ContractBase {
         maxSlippage: toWei(maxSlippage)
       },
       toBacking,
-      parseInt((deadline.getTime() / 1000).toFixed(0))
+      toTimestamp(deadline)
+    ]);
+  }
+
+  /**
+   * @returns Block number of the TempusController deployment, the earliest block of its events.
+   * This is the block given to `attach`/`connect`, or the block of the deploy receipt.
+   * Otherwise it is searched by the contract code, which needs a node with archive state, @see findDeploymentBlock
+   */
+  async deploymentBlock(): Promise<number> {
+    if (this._deploymentBlock === undefined) {
+      this._deploymentBlock = findDeploymentBlock(this.contract);
+      this._deploymentBlock.catch(() => { this._deploymentBlock = undefined; });
+    }
+    return this._deploymentBlock;
+  }
+
+  /**
+   * Queries `Deposited` events, converting amounts using each pool's precision
+   * @param query Optional filters by pool, depositor, recipient and block range
+   */
+  async getDeposits(query:ControllerEventQuery = {}): Promise<DepositEvent[]> {
+    const filter = this.contract.filters.Deposited(
+      query.pool?.address ?? null, query.user ? addressOf(query.user) : null, query.recipient ? addressOf(query.recipient) : null
     );
+    const events = await this.queryEvents(filter, query);
+    const getPool = this.poolResolver(query);
+    return Promise.all(events.map(async (e:Event) => {
+      const pool = await getPool(e.args.pool);
+      return {
+        ...eventBase(pool, e),
+        depositor: e.args.depositor,
+        shareAmounts: pool.principalShare.toDecimal(e.args.shareAmounts),
+      };
+    }));
   }
-  
+
+  /**
+   * Queries `Redeemed` events, converting amounts using each pool's precision
+   * @param query Optional filters by pool, redeemer, recipient and block range
+   */
+  async getRedemptions(query:ControllerEventQuery = {}): Promise<RedemptionEvent[]> {
+    const filter = this.contract.filters.Redeemed(
+      query.pool?.address ?? null, query.user ? addressOf(query.user) : null, query.recipient ? addressOf(query.recipient) : null
+    );
+    const events = await this.queryEvents(filter, query);
+    const getPool = this.poolResolver(query);
+    return Promise.all(events.map(async (e:Event) => {
+      const pool = await getPool(e.args.pool);
+      return {
+        ...eventBase(pool, e),
+        redeemer: e.args.redeemer,
+        principalShareAmount: pool.principalShare.toDecimal(e.args.principalShareAmount),
+        yieldShareAmount: pool.yieldShare.toDecimal(e.args.yieldShareAmount),
+        isEarlyRedeem: e.args.isEarlyRedeem,
+      };
+    }));
+  }
+
+  /**
+   * Queries events in pages of `query.blockRange` blocks, so large ranges don't exceed node log limits
+   */
+  private async queryEvents(filter:EventFilter, query:ControllerEventQuery): Promise<Event[]> {
+    const provider = this.contract.provider;
+    const fromBlock = (query.fromBlock !== undefined) ? await toBlockNumber(query.fromBlock, provider) : await this.deploymentBlock();
+    const toBlock = await toBlockNumber(query.toBlock ?? "latest", provider);
+    const blockRange = query.blockRange ?? 10000;
+
+    const events:Event[] = [];
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+      const end = Math.min(start + blockRange - 1, toBlock);
+      events.push(...await this.contract.queryFilter(filter, start, end));
+    }
+    return events;
+  }
+
+  /**
+   * @returns Function which maps event pool addresses to TempusPools, attaching unknown pools only once
+   */
+  private poolResolver(query:ControllerEventQuery): (address:string) => Promise<TempusPool> {
+    const pools: { [address:string]: Promise<TempusPool> } = {};
+    for (const pool of [query.pool, ...(query.pools ?? [])]) {
+      if (pool) {
+        pools[pool.address.toLowerCase()] = Promise.resolve(pool);
+      }
+    }
+    return (address:string) => {
+      const key = address.toLowerCase();
+      if (!pools[key]) {
+        pools[key] = TempusPool.connect(address, this.contract.signer ?? this.contract.provider);
+      }
+      return pools[key];
+    };
+  }
+
   async supportsInterface(interfaceId: string): Promise<Boolean> {
     return this.contract.supportsInterface(interfaceId);
   }
 }
+
+/**
+ * @returns Block number of the @param contract deployment, from its deploy receipt if it was deployed
+ * with this provider, otherwise the first block with its code, which needs a node with archive state
+ */
+export async function findDeploymentBlock(contract:Contract): Promise<number> {
+  const provider = contract.provider;
+  const receipt = contract.deployTransaction && await provider.getTransactionReceipt(contract.deployTransaction.hash);
+  if (receipt) {
+    return receipt.blockNumber;
+  }
+  // first block with the contract code
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (await provider.getCode(contract.address, mid) === "0x") {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+async function toBlockNumber(blockTag:providers.BlockTag, provider:providers.Provider): Promise<number> {
+  if (typeof(blockTag) === "number") {
+    return blockTag;
+  }
+  if (utils.isHexString(blockTag)) {
+    return BigNumber.from(blockTag).toNumber();
+  }
+  return (await provider.getBlock(blockTag)).number;
+}
+
+function eventBase(pool:TempusPool, e:Event): ControllerEventBase {
+  return {
+    pool: pool,
+    recipient: e.args.recipient,
+    yieldTokenAmount: pool.yieldBearing.toDecimal(e.args.yieldTokenAmount),
+    backingTokenValue: pool.asset.toDecimal(e.args.backingTokenValue),
+    interestRate: pool.toInterestRateDecimal(e.args.interestRate),
+    fee: pool.yieldBearing.toDecimal(e.args.fee),
+    blockNumber: e.blockNumber,
+    transactionHash: e.transactionHash,
+    logIndex: e.logIndex,
+  };
+}
+
+/**
+ * @returns Unix timestamp in seconds, as expected by contract deadlines
+ */
+export function toTimestamp(date:Date): number {
+  return parseInt((date.getTime() / 1000).toFixed(0));
+}
+
+function compact(permits:(ERC20PermitSignature|undefined)[]): ERC20PermitSignature[] {
+  return permits.filter(p => p !== undefined);
+}
+
+/**
+ * @returns `rate` decreased by `slippageBps` basis points
+ */
+function applySlippage(rate:Decimal, slippageBps:number): Decimal {
+  if (slippageBps < 0 || slippageBps >= 10000) {
+    throw new Error("slippageBps must be in range [0, 10000), got: " + slippageBps);
+  }
+  return rate.mul(10000 - slippageBps).div(10000);
+}
+
+/**
+ * @returns Ether value to send with a deposit, only BT deposits of Ether pools need it
+ */
+function etherValueOf(pool:TempusMarket, tokenAmount:Numberish, isBackingToken:boolean): Numberish {
+  return (isBackingToken && getPoolAdapter(pool.tempus.type).acceptsEther) ? tokenAmount : 0;
+}
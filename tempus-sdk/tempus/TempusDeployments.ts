@@ -0,0 +1,227 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { Contract } from "ethers";
+import { TempusController } from "./TempusController";
+import { TempusPool } from "./TempusPool";
+import { TempusPoolAMM } from "./TempusPoolAMM";
+import { TempusMarket } from "./TempusMarket";
+import { Stats } from "./Stats";
+import { ContractLoader, SignerOrProvider, abiLoader } from "./ContractLoader";
+
+/**
+ * Kind of a contract in a deployments folder, detected from its label
+ */
+export enum DeploymentKind {
+  Controller = "TempusController",
+  Stats = "Stats",
+  Pool = "TempusPool",
+  AMM = "TempusAMM",
+  Other = "Other", // tokens and protocols, eg "Dai" or "aToken_Dai"
+}
+
+/**
+ * A single `deployments/<network>/<label>.json` file written by `scripts/utils.ts generateDeployment`
+ */
+export interface DeploymentEntry {
+  label:string; // file name without `.json`, eg "TempusPool_Lido staked ETH_maturity1638190800"
+  kind:DeploymentKind;
+  address:string;
+  abi:any[]; // ABI at the time of the deployment
+  blockNumber?:number; // `receipt.blockNumber` of the deployment, if the file has a receipt
+}
+
+/**
+ * A TempusPool and the TempusPoolAMM trading its shares, with their deployment labels
+ */
+export interface DeployedMarket extends TempusMarket {
+  poolLabel:string;
+  ammLabel:string;
+}
+
+/**
+ * Default deployments folder, relative to the working directory like the deploy scripts
+ */
+export const DEFAULT_DEPLOYMENTS_DIR = "deployments";
+
+/**
+ * @returns Kind of a deployment from its @param label, eg "TempusAMM_Lido staked ETH_maturity_1638190800" is an AMM
+ */
+export function classifyDeployment(label:string): DeploymentKind {
+  if (label === DeploymentKind.Controller || label === DeploymentKind.Stats) {
+    return label as DeploymentKind;
+  }
+  if (label.startsWith(DeploymentKind.Pool + "_")) {
+    return DeploymentKind.Pool;
+  }
+  if (label.startsWith(DeploymentKind.AMM + "_")) {
+    return DeploymentKind.AMM;
+  }
+  return DeploymentKind.Other;
+}
+
+/**
+ * Reads all deployment files of a network, without connecting to any contract
+ * @param network Network name, eg "goerli"
+ * @param deploymentsDir Folder containing a subfolder per network
+ * @returns Entries sorted by label
+ */
+export function readDeployments(network:string, deploymentsDir:string = DEFAULT_DEPLOYMENTS_DIR): DeploymentEntry[] {
+  const networkDir = join(deploymentsDir, network);
+  if (!existsSync(networkDir)) {
+    throw new Error("No deployments of network " + network + " in " + deploymentsDir);
+  }
+  return readdirSync(networkDir).filter(file => file.endsWith(".json")).sort().map((file:string) => {
+    const label = file.substring(0, file.length - ".json".length);
+    const json = JSON.parse(readFileSync(join(networkDir, file), "utf-8"));
+    if (typeof json.address !== "string") {
+      throw new Error("Deployment " + label + " of network " + network + " has no address");
+    }
+    return {
+      label: label,
+      kind: classifyDeployment(label),
+      address: json.address,
+      abi: json.abi ?? [],
+      blockNumber: json.receipt?.blockNumber
+    };
+  });
+}
+
+/**
+ * Typed address book of a network's deployments folder.
+ * Every pool is paired with the AMM trading its principal and yield shares
+ */
+export class TempusDeployments {
+  network:string;
+  entries:DeploymentEntry[];
+  controller?:TempusController; // from the TempusController deployment, or the controller of the pools
+  stats?:Stats;
+  markets:DeployedMarket[];
+  unpairedPools:TempusPool[]; // pools without a deployed AMM
+  unpairedAMMs:DeploymentEntry[]; // AMMs which do not trade the shares of any deployed pool
+
+  constructor(
+    network:string,
+    entries:DeploymentEntry[],
+    controller:TempusController|undefined,
+    stats:Stats|undefined,
+    markets:DeployedMarket[],
+    unpairedPools:TempusPool[],
+    unpairedAMMs:DeploymentEntry[]
+  ) {
+    this.network = network;
+    this.entries = entries;
+    this.controller = controller;
+    this.stats = stats;
+    this.markets = markets;
+    this.unpairedPools = unpairedPools;
+    this.unpairedAMMs = unpairedAMMs;
+  }
+
+  /**
+   * Loads a network's deployments and attaches to its Tempus contracts
+   * @param network Network name, eg "goerli"
+   * @param loader Loads the contracts, eg `abiLoader` or `hardhatLoader` of the `testing` subpath
+   * @param deploymentsDir Folder containing a subfolder per network
+   */
+  static async attach(
+    network:string,
+    loader:ContractLoader,
+    deploymentsDir:string = DEFAULT_DEPLOYMENTS_DIR
+  ): Promise<TempusDeployments> {
+    const entries = readDeployments(network, deploymentsDir);
+    const ofKind = (kind:DeploymentKind) => entries.filter(e => e.kind === kind);
+
+    const pools:{ label:string, pool:TempusPool }[] = [];
+    for (const entry of ofKind(DeploymentKind.Pool)) {
+      pools.push({ label: entry.label, pool: await TempusPool.attach(entry.address, undefined, loader) });
+    }
+
+    const markets:DeployedMarket[] = [];
+    const unpairedAMMs:DeploymentEntry[] = [];
+    for (const entry of ofKind(DeploymentKind.AMM)) {
+      const shares = await ammShares(await loader("TempusAMM", entry.address));
+      const paired = shares && pools.find(p =>
+        p.pool.principalShare.address === shares[0] && p.pool.yieldShare.address === shares[1]
+      );
+      if (paired) {
+        const amm = await TempusPoolAMM.attach(entry.address, paired.pool, loader);
+        markets.push({ tempus: paired.pool, amm: amm, poolLabel: paired.label, ammLabel: entry.label });
+      } else {
+        unpairedAMMs.push(entry);
+      }
+    }
+    const unpairedPools = pools.filter(p => !markets.some(m => m.tempus === p.pool)).map(p => p.pool);
+
+    const controllerEntry = ofKind(DeploymentKind.Controller)[0];
+    const controller = controllerEntry
+      ? await TempusController.attach(controllerEntry.address, loader, controllerEntry.blockNumber)
+      : pools[0]?.pool.controller;
+
+    const statsEntry = ofKind(DeploymentKind.Stats)[0];
+    const stats = statsEntry ? new Stats(await loader("Stats", statsEntry.address)) : undefined;
+
+    return new TempusDeployments(network, entries, controller, stats, markets, unpairedPools, unpairedAMMs);
+  }
+
+  /**
+   * Loads a network's deployments and connects to its Tempus contracts with the ABIs bundled in the SDK, without hardhat
+   * @param network Network name, eg "goerli"
+   * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+   * @param deploymentsDir Folder containing a subfolder per network
+   */
+  static async connect(
+    network:string,
+    signerOrProvider:SignerOrProvider,
+    deploymentsDir:string = DEFAULT_DEPLOYMENTS_DIR
+  ): Promise<TempusDeployments> {
+    return TempusDeployments.attach(network, abiLoader(signerOrProvider), deploymentsDir);
+  }
+
+  /**
+   * @returns Deployment entry with @param label
+   */
+  entry(label:string): DeploymentEntry {
+    const entry = this.entries.find(e => e.label === label);
+    if (!entry) {
+      throw new Error("No deployment " + label + " in network " + this.network);
+    }
+    return entry;
+  }
+
+  /**
+   * @returns Address of the deployment with @param label, eg "Dai"
+   */
+  address(label:string): string {
+    return this.entry(label).address;
+  }
+
+  /**
+   * @param poolOrAmm Address or deployment label of the TempusPool or its TempusAMM
+   * @returns The pool and AMM pair
+   */
+  market(poolOrAmm:string): DeployedMarket {
+    const market = this.markets.find(m =>
+      m.poolLabel === poolOrAmm || m.ammLabel === poolOrAmm || m.tempus.address === poolOrAmm || m.amm.address === poolOrAmm
+    );
+    if (!market) {
+      throw new Error("No TempusPool with a TempusAMM matching " + poolOrAmm + " in network " + this.network);
+    }
+    return market;
+  }
+
+  /**
+   * @returns All deployed pools, paired or not
+   */
+  get pools(): TempusPool[] {
+    return this.markets.map(m => m.tempus).concat(this.unpairedPools);
+  }
+}
+
+// token0 and token1 of a TempusAMM, undefined for AMMs of an older interface
+async function ammShares(amm:Contract): Promise<[string, string]|undefined> {
+  try {
+    return await Promise.all([amm.token0(), amm.token1()]);
+  } catch (e) {
+    return undefined;
+  }
+}
@@ -0,0 +1,346 @@
+import { BigNumber, utils } from "ethers";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import type { ContractBase } from "@tempus-labs/utils/ts/utils/ContractBase";
+import type { TempusPool } from "./TempusPool";
+import type { TempusAMM } from "./TempusAMM";
+
+/**
+ * Base class of all decoded Tempus contract errors
+ */
+export class TempusError extends Error {
+  /** Name of the Solidity custom error, eg "PoolAlreadyMatured" */
+  readonly errorName:string;
+
+  /** Decoded error arguments by name, token amounts are converted to Decimal */
+  readonly args:{ [name:string]: any };
+
+  /** Raw revert data, if it was available */
+  readonly data?:string;
+
+  /** The original error thrown by ethers or hardhat */
+  readonly cause?:any;
+
+  /**
+   * The message of @param cause is kept at the end of the message,
+   * so checks of the hardhat and ethers revert messages keep working
+   */
+  constructor(errorName:string, message:string, args:{ [name:string]: any } = {}, data?:string, cause?:any) {
+    super(typeof(cause?.message) === "string" && cause.message !== message ? message + ": " + cause.message : message);
+    Object.setPrototypeOf(this, new.target.prototype); // keep `instanceof` working for ES5 targets
+    this.name = new.target.name;
+    this.errorName = errorName;
+    this.args = args;
+    this.data = data;
+    this.cause = cause;
+  }
+}
+
+/** Slippage or deadline limits of a swap, join or exit were exceeded, the call can be retried with other limits */
+export class SlippageError extends TempusError {}
+
+/** The caller or a contract passed to the call is not authorized */
+export class UnauthorizedError extends TempusError {}
+
+/** The call is not allowed in the current state of the pool or AMM (matured, negative yield, ...) */
+export class PoolStateError extends TempusError {}
+
+/** The user does not hold enough tokens */
+export class InsufficientBalanceError extends TempusError {}
+
+/** A token transfer, approval or a call into the underlying protocol failed */
+export class TransferError extends TempusError {}
+
+/** One of the call arguments is invalid */
+export class InvalidArgumentError extends TempusError {}
+
+/**
+ * Optional context used to convert error arguments into Decimals of the right precision
+ */
+export interface TempusErrorContext {
+  pool?:TempusPool;
+  amm?:TempusAMM;
+}
+
+/**
+ * How an uint256 error argument is scaled
+ *  bt: BackingToken, ybt: YieldBearingToken, shares: TPS/TYS, lp: TempusAMM LP tokens,
+ *  eth: Ether, fp: 1e18 fixed point (percentages, multipliers)
+ */
+type ArgUnit = "bt" | "ybt" | "shares" | "lp" | "eth" | "fp";
+
+interface ErrorDescriptor {
+  signature:string;
+  type:typeof TempusError;
+  units?:{ [arg:string]: ArgUnit };
+  message:(a:{ [name:string]: any }) => string;
+}
+
+const ERRORS: ErrorDescriptor[] = [
+  // ITempusPool
+  { signature: "MaturityTimeBeforeStartTime(uint256 maturity, uint256 startTime)", type: InvalidArgumentError,
+    message: a => `Maturity time ${a.maturity} is before the pool start time ${a.startTime}` },
+  { signature: "ZeroAddressController()", type: InvalidArgumentError,
+    message: () => "Controller address cannot be zero" },
+  { signature: "ZeroInterestRate()", type: InvalidArgumentError,
+    message: () => "Interest rate cannot be zero" },
+  { signature: "ZeroEstimatedFinalYield()", type: InvalidArgumentError,
+    message: () => "Estimated final yield cannot be zero" },
+  { signature: "ZeroAddressYieldBearingToken()", type: InvalidArgumentError,
+    message: () => "Yield bearing token address cannot be zero" },
+  { signature: "OnlyControllerAuthorized(address deniedCaller)", type: UnauthorizedError,
+    message: a => `Only the TempusController is authorized, denied caller ${a.deniedCaller}` },
+  { signature: "FeePercentageTooBig(bytes32 actionType, uint256 feePercent, uint256 maximumFeePercent)", type: InvalidArgumentError,
+    units: { feePercent: "ybt", maximumFeePercent: "ybt" },
+    message: a => `${a.actionType} fee ${a.feePercent} is bigger than the maximum fee ${a.maximumFeePercent}` },
+  { signature: "PoolAlreadyMatured(address tempusPool)", type: PoolStateError,
+    message: a => `TempusPool ${a.tempusPool} has already matured` },
+  { signature: "NegativeYield()", type: PoolStateError,
+    message: () => "Deposits are not allowed while the pool has negative yield" },
+  { signature: "InsufficientPrincipalTokenBalance(uint256 principalTokenBalance, uint256 expectedPrincipalTokenAmount)", type: InsufficientBalanceError,
+    units: { principalTokenBalance: "shares", expectedPrincipalTokenAmount: "shares" },
+    message: a => `Insufficient principals balance ${a.principalTokenBalance}, expected ${a.expectedPrincipalTokenAmount}` },
+  { signature: "InsufficientYieldTokenBalance(uint256 yieldTokenBalance, uint256 expectedYieldTokenAmount)", type: InsufficientBalanceError,
+    units: { yieldTokenBalance: "shares", expectedYieldTokenAmount: "shares" },
+    message: a => `Insufficient yields balance ${a.yieldTokenBalance}, expected ${a.expectedYieldTokenAmount}` },
+  { signature: "NotEqualPrincipalAndYieldTokenAmounts(uint256 principalTokenAmount, uint256 yieldTokenAmount)", type: InvalidArgumentError,
+    units: { principalTokenAmount: "shares", yieldTokenAmount: "shares" },
+    message: a => `Principals ${a.principalTokenAmount} and yields ${a.yieldTokenAmount} must be equal before maturity` },
+  { signature: "MoreThanMaximumExpectedDecimals(address token, uint256 maximumExpectedDecimals, uint256 actualDecimals)", type: InvalidArgumentError,
+    message: a => `Token ${a.token} has ${a.actualDecimals} decimals, maximum is ${a.maximumExpectedDecimals}` },
+  { signature: "InvalidBackingToken(address token)", type: InvalidArgumentError,
+    message: a => `Invalid backing token ${a.token}` },
+  { signature: "DecimalsPrecisionMismatch(address token, uint256 expectedDecimals, uint256 actualDecimals)", type: InvalidArgumentError,
+    message: a => `Token ${a.token} has ${a.actualDecimals} decimals, expected ${a.expectedDecimals}` },
+  { signature: "YieldShareCalculationFailure()", type: PoolStateError,
+    message: () => "Failed to calculate the yield share price" },
+  { signature: "LidoWithdrawNotSupported()", type: InvalidArgumentError,
+    message: () => "Lido does not support withdrawing to ETH, redeem to stETH instead" },
+  { signature: "ComptrollerEnterMarketsFailed(address marketToken)", type: TransferError,
+    message: a => `Compound comptroller failed to enter market ${a.marketToken}` },
+  { signature: "CTokenMintFailed(address cToken, uint256 amountToMint)", type: TransferError,
+    units: { amountToMint: "bt" },
+    message: a => `Failed to mint ${a.cToken} with ${a.amountToMint} backing tokens` },
+  { signature: "CTokenRedeemFailed(address cToken, uint256 amountToRedeem)", type: TransferError,
+    units: { amountToRedeem: "ybt" },
+    message: a => `Failed to redeem ${a.amountToRedeem} of ${a.cToken}` },
+
+  // ITempusController
+  { signature: "UnauthorizedContract(address deniedContract)", type: UnauthorizedError,
+    message: a => `Contract ${a.deniedContract} is not registered with the TempusController` },
+  { signature: "InvalidLeverageMultiplier(uint256 leverageMultiplier)", type: InvalidArgumentError,
+    units: { leverageMultiplier: "fp" },
+    message: a => `Invalid leverage multiplier ${a.leverageMultiplier}` },
+  { signature: "ZeroAddressRecipient()", type: InvalidArgumentError,
+    message: () => "Recipient address cannot be zero" },
+  { signature: "ZeroSwapAmount()", type: InvalidArgumentError,
+    message: () => "Swap amount cannot be zero" },
+  { signature: "ZeroMaxSpendAmount()", type: InvalidArgumentError,
+    message: () => "Maximum spend amount cannot be zero" },
+  { signature: "ZeroYieldTokenAmount()", type: InvalidArgumentError,
+    message: () => "Yield bearing token amount cannot be zero" },
+  { signature: "ZeroBackingTokenAmount()", type: InvalidArgumentError,
+    message: () => "Backing token amount cannot be zero" },
+  { signature: "ZeroAddressBackingToken()", type: InvalidArgumentError,
+    message: () => "Backing token address cannot be zero, Ether can only be sent to ETH based pools" },
+  { signature: "NonZeroAddressBackingToken()", type: InvalidArgumentError,
+    message: () => "Ether value was sent to a pool which does not accept Ether" },
+  { signature: "EtherValueAndBackingTokenAmountMismatch(uint256 ethValue, uint256 backingTokenAmount)", type: InvalidArgumentError,
+    units: { ethValue: "eth", backingTokenAmount: "bt" },
+    message: a => `Sent Ether value ${a.ethValue} does not match the backing token amount ${a.backingTokenAmount}` },
+  { signature: "ZeroPrincipalAndYieldAmounts()", type: InvalidArgumentError,
+    message: () => "Principals and yields amounts cannot both be zero" },
+  { signature: "FailedIncreaseAllowance(address token, address recipient, uint256 amount)", type: TransferError,
+    message: a => `Failed to increase allowance of ${a.token} for ${a.recipient}` },
+  { signature: "FailedLPTokensTransfer(address sender, address recipient, uint256 amount)", type: TransferError,
+    units: { amount: "lp" },
+    message: a => `Failed to transfer ${a.amount} LP tokens from ${a.sender} to ${a.recipient}` },
+  { signature: "FailedPrincipalTokensTransfer(address sender, address recipient, uint256 amount)", type: TransferError,
+    units: { amount: "shares" },
+    message: a => `Failed to transfer ${a.amount} principals from ${a.sender} to ${a.recipient}` },
+  { signature: "FailedYieldTokensTransfer(address sender, address recipient, uint256 amount)", type: TransferError,
+    units: { amount: "shares" },
+    message: a => `Failed to transfer ${a.amount} yields from ${a.sender} to ${a.recipient}` },
+  { signature: "ZeroYieldsRate()", type: InvalidArgumentError,
+    message: () => "Yields rate cannot be zero" },
+  { signature: "MaxSlippageTooBig(uint256 maxSlippage)", type: InvalidArgumentError,
+    units: { maxSlippage: "fp" },
+    message: a => `Maximum slippage ${a.maxSlippage} cannot be bigger than 1.0` },
+  { signature: "MaxLeftoverSharesTooBig(uint256 maxLeftoverShares)", type: InvalidArgumentError,
+    units: { maxLeftoverShares: "shares" },
+    message: a => `Maximum leftover shares ${a.maxLeftoverShares} must be smaller than the redeemed shares` },
+
+  // ITempusAMM
+  { signature: "SwapFeeTooBig(uint256 swapFee, uint256 maxSwapFee)", type: InvalidArgumentError,
+    units: { swapFee: "fp", maxSwapFee: "fp" },
+    message: a => `Swap fee ${a.swapFee} is bigger than the maximum swap fee ${a.maxSwapFee}` },
+  { signature: "TokenDecimalsMismatch(address token0, address token1)", type: InvalidArgumentError,
+    message: a => `Tokens ${a.token0} and ${a.token1} have different decimals` },
+  { signature: "StartingAmplificationValueBiggerThanEndingAmplificationValue(uint256 startingAmplificationValue, uint256 endingAmplificationValue)", type: InvalidArgumentError,
+    message: a => `Starting amplification ${a.startingAmplificationValue} is bigger than ending amplification ${a.endingAmplificationValue}` },
+  { signature: "AmplificationValueTooSmall(uint256 amplificationValue, uint256 minAmplificationValue)", type: InvalidArgumentError,
+    message: a => `Amplification ${a.amplificationValue} is smaller than the minimum ${a.minAmplificationValue}` },
+  { signature: "AmplificationValueTooBig(uint256 amplificationValue, uint256 maxAmplificationValue)", type: InvalidArgumentError,
+    message: a => `Amplification ${a.amplificationValue} is bigger than the maximum ${a.maxAmplificationValue}` },
+  { signature: "ZeroTokenAmount()", type: InvalidArgumentError,
+    message: () => "Token amount cannot be zero" },
+  { signature: "AddingLiquidityLPTokensSlippage(uint256 lpTokensOut, uint256 minLPTokensOut)", type: SlippageError,
+    units: { lpTokensOut: "lp", minLPTokensOut: "lp" },
+    message: a => `Providing liquidity would mint ${a.lpTokensOut} LP tokens, less than the minimum ${a.minLPTokensOut}` },
+  { signature: "RemovingLiquidityPoolTokensSlippage(uint256 poolTokensOut, uint256 minPoolTokensOut)", type: SlippageError,
+    units: { poolTokensOut: "shares", minPoolTokensOut: "shares" },
+    message: a => `Removing liquidity would return ${a.poolTokensOut} shares, less than the minimum ${a.minPoolTokensOut}` },
+  { signature: "RemovingLiquidityLpTokensSlippage(uint256 lpTokensIn, uint256 maxLpTokensIn)", type: SlippageError,
+    units: { lpTokensIn: "lp", maxLpTokensIn: "lp" },
+    message: a => `Removing liquidity would burn ${a.lpTokensIn} LP tokens, more than the maximum ${a.maxLpTokensIn}` },
+  { signature: "SwapGivenTokensInSlippage(uint256 tokensOut, uint256 minTokensOut)", type: SlippageError,
+    units: { tokensOut: "shares", minTokensOut: "shares" },
+    message: a => `Swap would return ${a.tokensOut} tokens, less than the minimum ${a.minTokensOut}` },
+  { signature: "SwapGivenTokensOutSlippage(uint256 tokensIn, uint256 maxTokensIn)", type: SlippageError,
+    units: { tokensIn: "shares", maxTokensIn: "shares" },
+    message: a => `Swap would cost ${a.tokensIn} tokens, more than the maximum ${a.maxTokensIn}` },
+  { signature: "SwapDeadlinePassed(uint256 deadline, uint256 currentTime)", type: SlippageError,
+    message: a => `Swap deadline ${a.deadline} has passed, current time is ${a.currentTime}` },
+  { signature: "InvalidTokenIn(address tokenIn)", type: InvalidArgumentError,
+    message: a => `Token ${a.tokenIn} is not traded by this TempusAMM` },
+  { signature: "NotInitialisedYet()", type: PoolStateError,
+    message: () => "TempusAMM has no liquidity yet" },
+  { signature: "AmplificationValueUpdateEndTimeTooClose(uint256 updateTimeRemaining, uint256 minUpdateTimeRemaining)", type: InvalidArgumentError,
+    message: a => `Amplification update duration ${a.updateTimeRemaining}s is shorter than the minimum ${a.minUpdateTimeRemaining}s` },
+  { signature: "AmplificationOngoingUpdate()", type: PoolStateError,
+    message: () => "An amplification update is already ongoing" },
+  { signature: "AmplificationUpdateDailyRateTooBig(uint256 amplificationDailyRate, uint256 maxAmplificationDailyRate)", type: InvalidArgumentError,
+    message: a => `Amplification daily rate ${a.amplificationDailyRate} is bigger than the maximum ${a.maxAmplificationDailyRate}` },
+  { signature: "NoAmplificationValueOngoingUpdate()", type: PoolStateError,
+    message: () => "There is no ongoing amplification update" },
+  { signature: "SwapAmountNoConvergence()", type: PoolStateError,
+    message: () => "Swap amount calculation did not converge" },
+  { signature: "StableMathNoConvergence()", type: PoolStateError,
+    message: () => "StableMath calculation did not converge" },
+
+  // IPositionManager
+  { signature: "InvalidLeverageMultiplier()", type: InvalidArgumentError,
+    message: () => "Invalid leverage multiplier" },
+  { signature: "UnauthorizedBurn()", type: UnauthorizedError,
+    message: () => "Only the position owner can burn it" },
+  { signature: "AmmSharesPoolMismatch()", type: InvalidArgumentError,
+    message: () => "TempusAMM shares do not belong to the TempusPool" },
+  { signature: "InvalidTempusController()", type: InvalidArgumentError,
+    message: () => "Invalid TempusController" },
+];
+
+const ERROR_DESCRIPTORS: { [selector:string]: ErrorDescriptor } = {};
+const ERRORS_INTERFACE = new utils.Interface(ERRORS.map(e => "error " + e.signature));
+for (const e of ERRORS) {
+  const selector = utils.id(utils.ErrorFragment.from(e.signature).format()).slice(0, 10);
+  ERROR_DESCRIPTORS[selector] = e;
+}
+
+const ERROR_STRING_SELECTOR = "0x08c379a0"; // Error(string)
+const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+function isRevertData(data:any): boolean {
+  return typeof(data) === "string" && utils.isHexString(data) && data.length >= 10;
+}
+
+/**
+ * Finds the revert data from errors thrown by ethers, hardhat or a JSON-RPC node
+ */
+export function getRevertData(error:any): string|undefined {
+  if (!error || typeof(error) !== "object") {
+    return undefined;
+  }
+  if (isRevertData(error.data)) {
+    return error.data;
+  }
+  if (error.data && isRevertData(error.data.data)) {
+    return error.data.data;
+  }
+  if (typeof(error.body) === "string") {
+    try {
+      const data = JSON.parse(error.body)?.error?.data;
+      if (isRevertData(data)) {
+        return data;
+      }
+    } catch {}
+  }
+  return getRevertData(error.error);
+}
+
+function toUnitDecimal(value:BigNumber, unit:ArgUnit|undefined, ctx:TempusErrorContext): Decimal|BigNumber {
+  const token:ContractBase|undefined = (() => {
+    switch (unit) {
+      case "bt":     return ctx.pool?.asset;
+      case "ybt":    return ctx.pool?.yieldBearing;
+      case "shares": return ctx.pool?.principalShare ?? ctx.amm?.token0;
+      case "lp":     return ctx.amm;
+    }
+    return undefined;
+  })();
+  if (token) {
+    return token.toDecimal(value);
+  }
+  if (unit === "eth" || unit === "fp") {
+    return decimal(utils.formatUnits(value, 18), 18);
+  }
+  return value; // unknown precision, leave it raw
+}
+
+/**
+ * Decodes a Tempus custom error, `Error(string)` or `Panic(uint256)` from the error thrown by a contract call
+ * @param error Error thrown by ethers or hardhat
+ * @param context Optional pool and AMM, used to convert amounts into Decimals of the right precision
+ * @returns Decoded TempusError or undefined if the error does not contain revert data
+ */
+export function decodeTempusError(error:any, context:TempusErrorContext = {}): TempusError|undefined {
+  if (error instanceof TempusError) {
+    return error;
+  }
+
+  const data = getRevertData(error);
+  if (!data) {
+    // hardhat reports custom errors in the message even when revert data is not attached
+    const match = /reverted with custom error '(\w+)\(/.exec(error?.message ?? "");
+    return match ? new TempusError(match[1], error.message, {}, undefined, error) : undefined;
+  }
+
+  const selector = data.slice(0, 10);
+  if (selector === ERROR_STRING_SELECTOR) {
+    const [reason] = utils.defaultAbiCoder.decode(["string"], utils.hexDataSlice(data, 4));
+    return new TempusError("Error", reason, { reason }, data, error);
+  }
+  if (selector === PANIC_SELECTOR) {
+    const [code] = utils.defaultAbiCoder.decode(["uint256"], utils.hexDataSlice(data, 4));
+    return new TempusError("Panic", "Panic code 0x" + code.toNumber().toString(16), { code }, data, error);
+  }
+
+  const descriptor = ERROR_DESCRIPTORS[selector];
+  if (!descriptor) {
+    return new TempusError("Unknown", "Unknown contract error " + selector, {}, data, error);
+  }
+
+  const description = ERRORS_INTERFACE.parseError(data);
+  const args:{ [name:string]: any } = {};
+  description.errorFragment.inputs.forEach((input, i) => {
+    const value = description.args[i];
+    if (input.type === "bytes32") {
+      args[input.name] = utils.parseBytes32String(value);
+    } else if (input.type === "uint256") {
+      args[input.name] = toUnitDecimal(value, descriptor.units?.[input.name], context);
+    } else {
+      args[input.name] = value;
+    }
+  });
+  return new descriptor.type(description.name, descriptor.message(args), args, data, error);
+}
+
+/**
+ * Awaits a contract call and rethrows any contract error as a decoded TempusError
+ * @example await withTempusErrors(pool.connect(user).redeem(...), { pool });
+ */
+export async function withTempusErrors<T>(call:Promise<T>, context:TempusErrorContext = {}): Promise<T> {
+  try {
+    return await call;
+  } catch (e) {
+    throw decodeTempusError(e, context) ?? e;
+  }
+}
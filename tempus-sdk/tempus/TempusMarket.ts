@@ -0,0 +1,23 @@
+import { TempusPool } from "./TempusPool";
+import { TempusPoolAMM } from "./TempusPoolAMM";
+
+/**
+ * A TempusPool together with the TempusPoolAMM trading its shares,
+ * which is all that TempusController and Stats need to know about a pool.
+ * PoolTestFixture satisfies this interface, so fixtures can be passed in tests as is
+ */
+export interface TempusMarket {
+  tempus:TempusPool;
+  amm:TempusPoolAMM;
+}
+
+/**
+ * @param tempus The TempusPool
+ * @param amm The TempusPoolAMM of @param tempus
+ */
+export function tempusMarket(tempus:TempusPool, amm:TempusPoolAMM): TempusMarket {
+  if (amm.principalShare.address !== tempus.principalShare.address || amm.yieldShare.address !== tempus.yieldShare.address) {
+    throw new Error("TempusPoolAMM " + amm.address + " does not trade the shares of TempusPool " + tempus.address);
+  }
+  return { tempus: tempus, amm: amm };
+}
@@ -1,19 +1,18 @@
-import { BytesLike, Contract, Transaction } from "ethers";
-import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
-import { Numberish, toWei, parseDecimal, formatDecimal, MAX_UINT256 } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { BigNumber, BytesLike, Contract, PopulatedTransaction, Transaction, constants, providers, utils } from "ethers";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish, toWei, parseDecimal, MAX_UINT256 } from "@tempus-labs/utils/ts/utils/DecimalUtils";
 import { ContractBase, Signer, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
 import { IERC20 } from "@tempus-labs/utils/ts/token/IERC20";
+import { ERC20Ether } from "@tempus-labs/utils/ts/token/ERC20Ether";
 import { PoolShare, ShareKind } from "./PoolShare";
 import { TempusController } from "./TempusController";
+import { PoolType, getPoolAdapter, parsePoolType } from "./PoolAdapter";
+import { TransactionBuilder, sendTransactions } from "./TransactionBuilder";
+import { SharePriceParams, SharePrices, calculateSharePrices } from "./SharePricing";
+import { ContractLoader, SignerOrProvider, abiLoader } from "./ContractLoader";
 
-export enum PoolType {
-  None = "None",
-  Aave = "Aave",
-  Lido = "Lido",
-  Compound = "Compound",
-  Yearn = "Yearn"
-}
+export { PoolType };
 
 export interface TempusSharesNames {
   principalName: string;
@@ -28,6 +27,30 @@ export interface TempusFeesConfig {
   matureRedeemPercent: Numberish;
 }
 
+/**
+ * State of a TempusPool read at a single block.
+ * Pool times are `bigint` seconds, same as the getters, the block fields are `number` as in ethers
+ */
+export interface PoolSnapshot {
+  blockNumber:number;
+  blockTimestamp:number;
+  startTime:bigint;
+  maturityTime:bigint;
+  exceptionalHaltTime:bigint|null; // null if not set
+  maximumNegativeYieldDuration:bigint;
+  matured:boolean;
+  initialInterestRate:Decimal;
+  currentInterestRate:Decimal; // STORED interest rate
+  maturityInterestRate:Decimal; // zero before maturity
+  pricePerPrincipalShare:Decimal; // in BT
+  pricePerYieldShare:Decimal; // in BT
+  totalFees:Decimal; // in YBT
+  feesConfig:TempusFeesConfig;
+  principalShareSupply:Decimal;
+  yieldShareSupply:Decimal;
+  contractBalance:Decimal; // YBT held by the pool
+}
+
 export function generateTempusSharesNames(ybtName:string, ybtSymbol:string, maturityTime:number): TempusSharesNames {
   const date:Date = new Date(maturityTime * 1000);
   
@@ -60,8 +83,17 @@ export function generateTempusAMMLPNameAndSymbol(ybtName:string, ybtSymbol:strin
   };
 }
 
+/**
+ * Attaches an ERC20 token wrapper with the decimals reported by the token contract
+ */
+async function attachERC20(tokenAddress:string, loader:ContractLoader): Promise<ERC20> {
+  const token = await loader("IERC20Metadata", tokenAddress);
+  return new ERC20("IERC20Metadata", await token.decimals(), token);
+}
+
 /**
  * Wrapper around TempusPool
+ * View methods accept an optional `blockTag` for reading historical state
  */
 export class TempusPool extends ContractBase {
   type:PoolType;
@@ -191,6 +223,47 @@ export class TempusPool extends ContractBase {
     );
   }
 
+  /**
+   * Attaches to an already deployed TempusPool with a custom ContractLoader, @see TempusPool.connect
+   * @param poolAddress Address of the deployed TempusPool contract
+   * @param owner Owner of the TempusPool, only required for owner-only calls
+   * @param loader Loads the pool, token and controller contracts, eg `abiLoader` or `hardhatLoader` of the `testing` subpath
+   */
+  static async attach(poolAddress:string, owner:Signer|undefined, loader:ContractLoader): Promise<TempusPool> {
+    const tempusPool = await loader("ITempusPool", poolAddress);
+    const type = parsePoolType(await tempusPool.protocolName());
+    const adapter = getPoolAdapter(type);
+    const pool = await loader(adapter.contractName, poolAddress);
+
+    const yieldToken = await attachERC20(await pool.yieldBearingToken(), loader);
+    const backingTokenAddress:string = await pool.backingToken();
+    const asset:IERC20 = (backingTokenAddress === constants.AddressZero)
+      ? new ERC20Ether() // Lido backing token is always ETH
+      : await attachERC20(backingTokenAddress, loader);
+
+    const exchangeRatePrec = adapter.exchangeRatePrecision(asset.decimals);
+    const controller = await TempusController.attach(await pool.controller(), loader);
+
+    // NOTE: Principals and Yields always have BackingToken precision
+    const tps = await PoolShare.attach(ShareKind.Principal, await pool.principalShare(), asset.decimals, loader);
+    const tys = await PoolShare.attach(ShareKind.Yield, await pool.yieldShare(), asset.decimals, loader);
+    return new TempusPool(type, owner, pool, controller, asset, yieldToken, tps, tys, exchangeRatePrec);
+  }
+
+  /**
+   * Connects to an already deployed TempusPool, eg on mainnet, with the ABIs bundled in the SDK.
+   * The PoolType is detected from `protocolName()` and the tokens, shares and TempusController are connected too
+   * @param poolAddress Address of the deployed TempusPool contract
+   * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+   */
+  static async connect(poolAddress:string, signerOrProvider:SignerOrProvider): Promise<TempusPool> {
+    return TempusPool.attach(poolAddress, undefined, abiLoader(signerOrProvider));
+  }
+
+  /**
+   * Deploys a new TempusPool using the registered PoolAdapter of this PoolType
+   * @see registerPoolAdapter
+   */
   static async deploy(
     type:PoolType,
     owner:Signer,
@@ -202,111 +275,22 @@ export class TempusPool extends ContractBase {
     shareNames:TempusSharesNames,
     underlyingProtocolContractAddress?: string
   ): Promise<TempusPool> {
-    let exchangeRatePrec:number;
-    let pool:Contract;
-
-    if (type === PoolType.Aave) {
-      exchangeRatePrec = 18; // AaveTempusPool converts 1e27 LiquidityIndex to 1e18 interestRate
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        yieldToken.address,
-        controller.address,
-        maturityTime,
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
-          name: shareNames.principalName, 
-          symbol: shareNames.principalSymbol
-        },
-        /*yieldsData*/{
-          name: shareNames.yieldName, 
-          symbol: shareNames.yieldSymbol
-        },
-        /*maxFeeSetup:*/{
-          depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
-          earlyRedeemPercent:  yieldToken.toBigNum(1.0),
-          matureRedeemPercent: yieldToken.toBigNum(0.5)
-        }
-      );
-    } else if (type === PoolType.Lido) {
-      exchangeRatePrec = 18; // Lido is always 1e18 thanks to ETH
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        yieldToken.address,
-        controller.address,
-        maturityTime,
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
-          name: shareNames.principalName, 
-          symbol: shareNames.principalSymbol
-        },
-        /*yieldsData*/{
-          name: shareNames.yieldName, 
-          symbol: shareNames.yieldSymbol
-        },
-        /*maxFeeSetup:*/{
-          depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
-          earlyRedeemPercent:  yieldToken.toBigNum(1.0),
-          matureRedeemPercent: yieldToken.toBigNum(0.5)
-        },
-        "0x0000000000000000000000000000000000000000" /* hardcoded referrer */
-      );
-    } else if (type === PoolType.Compound) {
-      exchangeRatePrec = (10 + asset.decimals); // exchange rate precision = 18 - 8 + Underlying Token Decimals
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        yieldToken.address,
-        controller.address,
-        maturityTime,
-        parseDecimal(1.0, exchangeRatePrec),
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
-          name: shareNames.principalName, 
-          symbol: shareNames.principalSymbol
-        },
-        /*yieldsData*/{
-          name: shareNames.yieldName, 
-          symbol: shareNames.yieldSymbol
-        },
-        /*maxFeeSetup:*/{
-          depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
-          earlyRedeemPercent:  yieldToken.toBigNum(1.0),
-          matureRedeemPercent: yieldToken.toBigNum(0.5)
-        }
-      );
-    } else if (type === PoolType.Yearn) {
-      exchangeRatePrec = asset.decimals; // exchange rate precision = Underlying Token Decimals
-      pool = await ContractBase.deployContractBy(
-        type + "TempusPool",
-        owner,
-        yieldToken.address,
-        controller.address,
-        maturityTime,
-        parseDecimal(estimatedYield, exchangeRatePrec),
-        /*principalsData*/{
-          name: shareNames.principalName, 
-          symbol: shareNames.principalSymbol
-        },
-        /*yieldsData*/{
-          name: shareNames.yieldName, 
-          symbol: shareNames.yieldSymbol
-        },
-        /*maxFeeSetup:*/{
-          depositPercent:      yieldToken.toBigNum(0.5), // fees are stored in YBT
-          earlyRedeemPercent:  yieldToken.toBigNum(1.0),
-          matureRedeemPercent: yieldToken.toBigNum(0.5)
-        }
-      );
-    } else {
-      throw new Error("Unsupported PoolType "+type+" TempusPool.deploy failed");
-    }
+    const adapter = getPoolAdapter(type);
+    const exchangeRatePrec = adapter.exchangeRatePrecision(asset.decimals);
+    const pool = await ContractBase.deployContractBy(
+      adapter.contractName,
+      owner,
+      ...adapter.constructorArgs({
+        owner, controller, asset, yieldToken, maturityTime, estimatedYield, shareNames, exchangeRatePrec
+      })
+    );
 
     // NOTE: Principals and Yields always have BackingToken precision
-    const tps = await PoolShare.attach(ShareKind.Principal, await pool.principalShare(), asset.decimals);
-    const tys = await PoolShare.attach(ShareKind.Yield, await pool.yieldShare(), asset.decimals);
-    const tempusPool = new TempusPool(type, owner, pool!, controller, asset, yieldToken, tps, tys, exchangeRatePrec);
+    // deployment already requires hardhat, so the shares are loaded from the same artifacts
+    const artifacts:ContractLoader = (contractName, address) => ContractBase.attachContract(contractName, address);
+    const tps = await PoolShare.attach(ShareKind.Principal, await pool.principalShare(), asset.decimals, artifacts);
+    const tys = await PoolShare.attach(ShareKind.Yield, await pool.yieldShare(), asset.decimals, artifacts);
+    const tempusPool = new TempusPool(type, owner, pool, controller, asset, yieldToken, tps, tys, exchangeRatePrec);
     await controller.register(owner, tempusPool.address);
     return tempusPool;
   }
@@ -314,21 +298,29 @@ export class TempusPool extends ContractBase {
   /**
    * @returns Number of YBT deposited into this TempusPool contract
    */
-  async contractBalance(): Promise<Decimal> {
-    return this.yieldBearing.balanceOf(this.contract.address);
+  async contractBalance(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.yieldBearing.toDecimal(await this.yieldBearing.contract.balanceOf(this.contract.address, { blockTag }));
   }
 
   async onDepositYieldBearing(user:Signer, yieldBearingAmount:Numberish, recipient:Addressable): Promise<Transaction> {
-    await this.yieldBearing.approve(user, this.contract.address, yieldBearingAmount);
-    return this.connect(user).onDepositYieldBearing(
-      this.yieldBearing.toBigNum(yieldBearingAmount), addressOf(recipient)
-    );
+    return sendTransactions(user, await this.populateOnDepositYieldBearing(user, yieldBearingAmount, recipient), { pool: this });
+  }
+
+  async populateOnDepositYieldBearing(user:Addressable, yieldBearingAmount:Numberish, recipient:Addressable): Promise<PopulatedTransaction[]> {
+    const builder = await new TransactionBuilder(user).allow(this.yieldBearing, this, yieldBearingAmount);
+    return builder
+      .call(this, "onDepositYieldBearing", [this.yieldBearing.toBigNum(yieldBearingAmount), addressOf(recipient)])
+      .transactions;
   }
 
   async onDepositBacking(user:Signer, backingTokenAmount:Numberish, recipient:Addressable, ethValue: Numberish = 0): Promise<Transaction> {
-    return this.connect(user).onDepositBacking(
-      this.asset.toBigNum(backingTokenAmount), addressOf(recipient), { value: toWei(ethValue)}
-    );
+    return sendTransactions(user, await this.populateOnDepositBacking(user, backingTokenAmount, recipient, ethValue), { pool: this });
+  }
+
+  async populateOnDepositBacking(user:Addressable, backingTokenAmount:Numberish, recipient:Addressable, ethValue: Numberish = 0): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user)
+      .call(this, "onDepositBacking", [this.asset.toBigNum(backingTokenAmount), addressOf(recipient)], toWei(ethValue))
+      .transactions;
   }
 
   /**
@@ -340,9 +332,13 @@ export class TempusPool extends ContractBase {
    * @param recipient Address to which redeemed Backing Tokens should be transferred
    */
   async redeemToBacking(user:Signer, principalAmount:Numberish, yieldAmount:Numberish, from: Addressable = user, recipient: Addressable = user): Promise<Transaction> {
-    return this.connect(user).redeemToBacking(
+    return sendTransactions(user, await this.populateRedeemToBacking(user, principalAmount, yieldAmount, from, recipient), { pool: this });
+  }
+
+  async populateRedeemToBacking(user:Addressable, principalAmount:Numberish, yieldAmount:Numberish, from: Addressable = user, recipient: Addressable = user): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "redeemToBacking", [
       addressOf(from), this.principalShare.toBigNum(principalAmount), this.yieldShare.toBigNum(yieldAmount), addressOf(recipient)
-    );
+    ]).transactions;
   }
 
   /**
@@ -352,22 +348,23 @@ export class TempusPool extends ContractBase {
    * @param yieldAmount How many yield shares to redeem
    * @param from Address of which Tempus Shares should be burned
    * @param recipient Address to which redeemed Yield Bearing Tokens should be transferred
+   * @throws TempusError decoded from the contract revert
    */
   async redeem(user:Signer, principalAmount:Numberish, yieldAmount:Numberish, from: Addressable = user, recipient: Addressable = user): Promise<Transaction> {
-    try {
-      return this.connect(user).redeem(
-        addressOf(from), this.principalShare.toBigNum(principalAmount), this.yieldShare.toBigNum(yieldAmount), addressOf(recipient)
-      );
-    } catch(e) {
-      throw new Error("TempusPool.redeem failed: " + (<Error>e).message);
-    }
+    return sendTransactions(user, await this.populateRedeem(user, principalAmount, yieldAmount, from, recipient), { pool: this });
+  }
+
+  async populateRedeem(user:Addressable, principalAmount:Numberish, yieldAmount:Numberish, from: Addressable = user, recipient: Addressable = user): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "redeem", [
+      addressOf(from), this.principalShare.toBigNum(principalAmount), this.yieldShare.toBigNum(yieldAmount), addressOf(recipient)
+    ]).transactions;
   }
 
   /**
    * @returns True if maturity has been reached and the pool was finalized.
    */
-  async matured(): Promise<Boolean> {
-    return this.contract.matured();
+  async matured(blockTag?:providers.BlockTag): Promise<boolean> {
+    return this.contract.matured({ blockTag });
   }
 
   /**
@@ -377,40 +374,57 @@ export class TempusPool extends ContractBase {
     await this.contract.finalize();
   }
 
-  async protocolName(): Promise<BytesLike> {
-    return await this.contract.protocolName();
+  async populateFinalize(user:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "finalize", []).transactions;
+  }
+
+  /**
+   * @returns True if `finalize` has set the maturity interest rate.
+   * `matured()` only checks the time, so a matured pool is not finalized until its first redeem or `finalize`
+   */
+  async isFinalized(blockTag?:providers.BlockTag): Promise<boolean> {
+    return +await this.maturityInterestRate(blockTag) !== 0;
+  }
+
+  async protocolName(blockTag?:providers.BlockTag): Promise<BytesLike> {
+    return await this.contract.protocolName({ blockTag });
+  }
+
+  /**
+   * @returns The address of the yield bearing token
+   */
+  async yieldBearingToken(blockTag?:providers.BlockTag): Promise<string> {
+    return await this.contract.yieldBearingToken({ blockTag });
   }
 
   /**
    * @returns The address of the backing token
    *          or the zero address in case of ETH
    */
-  async backingToken(): Promise<Numberish> {
-    return await this.contract.backingToken();
+  async backingToken(blockTag?:providers.BlockTag): Promise<string> {
+    return await this.contract.backingToken({ blockTag });
   }
 
   /**
    * @returns The start time of the pool
    */
-  async startTime(): Promise<Numberish> {
-    const start:number = await this.contract.startTime();
-    return start;
+  async startTime(blockTag?:providers.BlockTag): Promise<bigint> {
+    return BigInt(await this.contract.startTime({ blockTag }));
   }
 
   /**
    * @returns The maturity time of the pool
    */
-  async maturityTime(): Promise<Numberish> {
-    const maturity:number = await this.contract.maturityTime();
-    return maturity;
+  async maturityTime(blockTag?:providers.BlockTag): Promise<bigint> {
+    return BigInt(await this.contract.maturityTime({ blockTag }));
   }
 
   /**
    * @returns The exceptional halt time of the pool
    * @note This returns null in case it is not set (i.e. has the special value of `type(uin256).max`)
    */
-  async exceptionalHaltTime(): Promise<Numberish | null> {
-    const exceptionalHaltTime = BigInt(await this.contract.exceptionalHaltTime());
+  async exceptionalHaltTime(blockTag?:providers.BlockTag): Promise<bigint | null> {
+    const exceptionalHaltTime = BigInt(await this.contract.exceptionalHaltTime({ blockTag }));
     if (exceptionalHaltTime === MAX_UINT256) {
       return null;
     }
@@ -420,9 +434,8 @@ export class TempusPool extends ContractBase {
   /**
    * @returns The maximum allowed duration of negative yield periods (in seconds)
    */
-  async maximumNegativeYieldDuration(): Promise<Numberish> {
-    const maximumNegativeYieldDuration:number = await this.contract.maximumNegativeYieldDuration();
-    return maximumNegativeYieldDuration;
+  async maximumNegativeYieldDuration(blockTag?:providers.BlockTag): Promise<bigint> {
+    return BigInt(await this.contract.maximumNegativeYieldDuration({ blockTag }));
   }
 
   /**
@@ -432,33 +445,44 @@ export class TempusPool extends ContractBase {
     return parseDecimal(decimal, this.exchangeRatePrec);
   }
 
+  /**
+   * @returns Contract interest rate converted to Decimal with this pool's exchange rate precision
+   */
+  public toInterestRateDecimal(rate:BigNumber): Decimal {
+    return decimal(utils.formatUnits(rate, this.exchangeRatePrec), this.exchangeRatePrec);
+  }
+
   /**
    * @returns Initial Interest Rate when the pool started
    */
-  async initialInterestRate(): Promise<Numberish> {
-    return formatDecimal(await this.contract.initialInterestRate(), this.exchangeRatePrec);
+  async initialInterestRate(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toInterestRateDecimal(await this.contract.initialInterestRate({ blockTag }));
   }
 
   /**
    * @returns Current STORED Interest rate of the pool
    */
-  async currentInterestRate(): Promise<Numberish> {
-    return formatDecimal(await this.contract.currentInterestRate(), this.exchangeRatePrec);
+  async currentInterestRate(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toInterestRateDecimal(await this.contract.currentInterestRate({ blockTag }));
   }
 
   /**
    * @returns Updated current Interest Rate
    */
-  async updateInterestRate(): Promise<Numberish> {
+  async updateInterestRate(): Promise<Decimal> {
     await this.contract.updateInterestRate();
     return this.currentInterestRate();
   }
 
+  async populateUpdateInterestRate(user:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(user).call(this, "updateInterestRate", []).transactions;
+  }
+
   /**
    * @returns Interest rate at maturity of the pool
    */
-  async maturityInterestRate(): Promise<Numberish> {
-    return formatDecimal(await this.contract.maturityInterestRate(), this.exchangeRatePrec);
+  async maturityInterestRate(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toInterestRateDecimal(await this.contract.maturityInterestRate({ blockTag }));
   }
 
   /**
@@ -467,8 +491,8 @@ export class TempusPool extends ContractBase {
    * @return Amount of Principals (TPS) and Yields (TYS) in Principal/YieldShare decimal precision
    *         TPS and TYS are minted in 1:1 ratio, hence a single return value
    */
-  async estimatedMintedShares(amount:Numberish, backingToken:boolean): Promise<Numberish> {
-    return this.principalShare.fromBigNum(await this.contract.estimatedMintedShares(amount, backingToken));
+  async estimatedMintedShares(amount:Numberish, backingToken:boolean, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.principalShare.toDecimal(await this.contract.estimatedMintedShares(amount, backingToken, { blockTag }));
   }
 
   /**
@@ -477,41 +501,41 @@ export class TempusPool extends ContractBase {
    * @return Amount of Principals (TPS) and Yields (TYS), scaled as 1e18 decimals.
    *         TPS and TYS are redeemed in 1:1 ratio before maturity, hence a single return value.
    */
-  async getSharesAmountForExactTokensOut(amountOut:Numberish, isBackingToken:boolean): Promise<Numberish> {
+  async getSharesAmountForExactTokensOut(amountOut:Numberish, isBackingToken:boolean, blockTag?:providers.BlockTag): Promise<Decimal> {
     const numTokensOut = isBackingToken ? this.asset.toBigNum(amountOut) : this.yieldBearing.toBigNum(amountOut);
-    return this.principalShare.fromBigNum(await this.contract.getSharesAmountForExactTokensOut(numTokensOut, isBackingToken));
+    return this.principalShare.toDecimal(await this.contract.getSharesAmountForExactTokensOut(numTokensOut, isBackingToken, { blockTag }));
   }
   
-  async numAssetsPerYieldToken(amount:Numberish, interestRate:Numberish): Promise<Numberish> {
-    return this.asset.fromBigNum(await this.contract.numAssetsPerYieldToken(
-      this.yieldBearing.toBigNum(amount), this.toContractExchangeRate(interestRate)
+  async numAssetsPerYieldToken(amount:Numberish, interestRate:Numberish, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.asset.toDecimal(await this.contract.numAssetsPerYieldToken(
+      this.yieldBearing.toBigNum(amount), this.toContractExchangeRate(interestRate), { blockTag }
     ));
   }
 
-  async numYieldTokensPerAsset(amount:Numberish, interestRate:Numberish): Promise<Numberish> {
-    return this.yieldBearing.fromBigNum(await this.contract.numYieldTokensPerAsset(
-      this.asset.toBigNum(amount), this.toContractExchangeRate(interestRate)
+  async numYieldTokensPerAsset(amount:Numberish, interestRate:Numberish, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.yieldBearing.toDecimal(await this.contract.numYieldTokensPerAsset(
+      this.asset.toBigNum(amount), this.toContractExchangeRate(interestRate), { blockTag }
     ));
   }
 
-  async pricePerPrincipalShare(): Promise<Numberish> {
-    return this.principalShare.fromBigNum(await this.contract.pricePerPrincipalShareStored());
+  async pricePerPrincipalShare(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.principalShare.toDecimal(await this.contract.pricePerPrincipalShareStored({ blockTag }));
   }
 
-  async pricePerYieldShare(): Promise<Numberish> {
-    return this.yieldShare.fromBigNum(await this.contract.pricePerYieldShareStored());
+  async pricePerYieldShare(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.yieldShare.toDecimal(await this.contract.pricePerYieldShareStored({ blockTag }));
   }
 
 
   /**
    * @returns Total accumulated fees
    */
-  async totalFees(): Promise<Decimal> {
-    return this.yieldBearing.toDecimal(await this.contract.totalFees());
+  async totalFees(blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.yieldBearing.toDecimal(await this.contract.totalFees({ blockTag }));
   }
 
-  async getFeesConfig(): Promise<TempusFeesConfig> {
-    let feesConfig = await this.contract.getFeesConfig();
+  async getFeesConfig(blockTag?:providers.BlockTag): Promise<TempusFeesConfig> {
+    let feesConfig = await this.contract.getFeesConfig({ blockTag });
     return {
       depositPercent:      this.yieldBearing.fromBigNum(feesConfig.depositPercent),
       earlyRedeemPercent:  this.yieldBearing.fromBigNum(feesConfig.earlyRedeemPercent),
@@ -526,21 +550,91 @@ export class TempusPool extends ContractBase {
     owner:Signer,
     feesConfig: TempusFeesConfig
   ): Promise<void> {
-    await this.connect(owner).setFeesConfig({
+    await sendTransactions(owner, await this.populateSetFeesConfig(owner, feesConfig), { pool: this });
+  }
+
+  async populateSetFeesConfig(owner:Addressable, feesConfig: TempusFeesConfig): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(owner).call(this, "setFeesConfig", [{
       depositPercent:      this.yieldBearing.toBigNum(feesConfig.depositPercent),
       earlyRedeemPercent:  this.yieldBearing.toBigNum(feesConfig.earlyRedeemPercent),
       matureRedeemPercent: this.yieldBearing.toBigNum(feesConfig.matureRedeemPercent)
-    });
+    }]).transactions;
   }
 
   /**
    * Transfers fees to the recipient. Caller must be owner.
    */
   async transferFees(owner:Signer, recipient:Addressable): Promise<void> {
-    await this.connect(owner).transferFees(addressOf(recipient));
+    await sendTransactions(owner, await this.populateTransferFees(owner, recipient), { pool: this });
+  }
+
+  async populateTransferFees(owner:Addressable, recipient:Addressable): Promise<PopulatedTransaction[]> {
+    return new TransactionBuilder(owner).call(this, "transferFees", [addressOf(recipient)]).transactions;
   }
 
-  async supportsInterface(interfaceId: string): Promise<Boolean> {
-    return this.contract.supportsInterface(interfaceId);
+  /**
+   * Prices TPS and TYS off-chain for the given, possibly hypothetical, interest rate and time
+   * @see calculateSharePrices
+   */
+  modelSharePrices(params:SharePriceParams): SharePrices {
+    return calculateSharePrices(params, this.exchangeRatePrec, this.principalShare.decimals);
+  }
+
+  /**
+   * Reads the full pool state, pinning every call to the same block so the values are consistent
+   * @param blockTag Block to read at, default is the latest block
+   */
+  async snapshot(blockTag:providers.BlockTag = "latest"): Promise<PoolSnapshot> {
+    const block = await this.contract.provider.getBlock(blockTag);
+    const at = { blockTag: block.number };
+    const [
+      startTime, maturityTime, exceptionalHaltTime, maximumNegativeYieldDuration, matured,
+      initialRate, currentRate, maturityRate, pricePerPrincipal, pricePerYield,
+      totalFees, feesConfig, principalSupply, yieldSupply, contractBalance
+    ] = await Promise.all([
+      this.contract.startTime(at),
+      this.contract.maturityTime(at),
+      this.contract.exceptionalHaltTime(at),
+      this.contract.maximumNegativeYieldDuration(at),
+      this.contract.matured(at),
+      this.contract.initialInterestRate(at),
+      this.contract.currentInterestRate(at),
+      this.contract.maturityInterestRate(at),
+      this.contract.pricePerPrincipalShareStored(at),
+      this.contract.pricePerYieldShareStored(at),
+      this.contract.totalFees(at),
+      this.contract.getFeesConfig(at),
+      this.principalShare.contract.totalSupply(at),
+      this.yieldShare.contract.totalSupply(at),
+      this.yieldBearing.contract.balanceOf(this.address, at)
+    ]);
+
+    return {
+      blockNumber: block.number,
+      blockTimestamp: block.timestamp,
+      startTime: BigInt(startTime),
+      maturityTime: BigInt(maturityTime),
+      exceptionalHaltTime: BigInt(exceptionalHaltTime) === MAX_UINT256 ? null : BigInt(exceptionalHaltTime),
+      maximumNegativeYieldDuration: BigInt(maximumNegativeYieldDuration),
+      matured: matured,
+      initialInterestRate: this.toInterestRateDecimal(initialRate),
+      currentInterestRate: this.toInterestRateDecimal(currentRate),
+      maturityInterestRate: this.toInterestRateDecimal(maturityRate),
+      pricePerPrincipalShare: this.principalShare.toDecimal(pricePerPrincipal),
+      pricePerYieldShare: this.yieldShare.toDecimal(pricePerYield),
+      totalFees: this.yieldBearing.toDecimal(totalFees),
+      feesConfig: {
+        depositPercent:      this.yieldBearing.fromBigNum(feesConfig.depositPercent),
+        earlyRedeemPercent:  this.yieldBearing.fromBigNum(feesConfig.earlyRedeemPercent),
+        matureRedeemPercent: this.yieldBearing.fromBigNum(feesConfig.matureRedeemPercent)
+      },
+      principalShareSupply: this.principalShare.toDecimal(principalSupply),
+      yieldShareSupply: this.yieldShare.toDecimal(yieldSupply),
+      contractBalance: this.yieldBearing.toDecimal(contractBalance)
+    };
+  }
+
+  async supportsInterface(interfaceId: string, blockTag?:providers.BlockTag): Promise<boolean> {
+    return this.contract.supportsInterface(interfaceId, { blockTag });
   }
 }
@@ -1,9 +1,26 @@
-import { Contract } from "ethers";
+import { Contract, providers } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
 import { Numberish, toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
 import { ContractBase, Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { AMP_PRECISION, TempusAMM } from "./TempusAMM";
 import { PoolShare } from "./PoolShare";
 import { TempusController } from "./TempusController";
+import { TempusPool } from "./TempusPool";
+import { ContractLoader, SignerOrProvider, abiLoader } from "./ContractLoader";
+
+/**
+ * State of a TempusPoolAMM read at a single block
+ */
+export interface PoolAMMSnapshot {
+  blockNumber:number;
+  blockTimestamp:number;
+  principals:Decimal; // principal shares held by the AMM
+  yields:Decimal; // yield shares held by the AMM
+  lpTotalSupply:Decimal;
+  amplification:number; // current amplification, without AMP_PRECISION
+  isAmplificationUpdating:boolean;
+  swapFeePercentage:Decimal;
+}
 
 /**
  * Wrapper for TempusAMM with principal and yield
@@ -51,20 +68,68 @@ export class TempusPoolAMM extends TempusAMM {
     return new TempusPoolAMM(tempusAMM, principalShare, yieldShare);
   }
 
-  async getExpectedPYOutGivenLPIn(inAmount: Numberish): Promise<{principalsOut:number, yieldsOut:number}> {
-    const p = await super.getTokensOutGivenLPIn(inAmount);
-    return {principalsOut: +p.token0Out, yieldsOut: +p.token1Out};
+  /**
+   * Attaches to an already deployed TempusAMM of @param pool
+   * @param loader Loads the contract, eg `abiLoader` or `hardhatLoader` of the `testing` subpath
+   */
+  static async attach(ammAddress:string, pool:TempusPool, loader:ContractLoader): Promise<TempusPoolAMM> {
+    const amm = await loader("TempusAMM", ammAddress);
+    const [token0, token1] = await Promise.all([amm.token0(), amm.token1()]);
+    if (token0 !== pool.principalShare.address || token1 !== pool.yieldShare.address) {
+      throw new Error("TempusAMM " + ammAddress + " does not trade the shares of TempusPool " + pool.address);
+    }
+    return new TempusPoolAMM(amm, pool.principalShare, pool.yieldShare);
   }
 
-  async getLPTokensOutForTokensIn(principalsAmountIn:Numberish, yieldsAmountIn:Numberish): Promise<Numberish> {
-    return super.getLPTokensOutForTokensIn(principalsAmountIn, yieldsAmountIn);
+  /**
+   * Connects to an already deployed TempusAMM with the ABI bundled in the SDK, without hardhat
+   * @param pool TempusPool whose shares are traded, @see TempusPool.connect
+   * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+   */
+  static async connect(ammAddress:string, pool:TempusPool, signerOrProvider:SignerOrProvider): Promise<TempusPoolAMM> {
+    return TempusPoolAMM.attach(ammAddress, pool, abiLoader(signerOrProvider));
   }
 
-  async getLPTokensInGivenTokensOut(principalStaked:Numberish, yieldsStaked:Numberish): Promise<Numberish> {
-    return super.getLPTokensInGivenTokensOut(principalStaked, yieldsStaked);
+  async getExpectedPYOutGivenLPIn(inAmount: Numberish, blockTag?:providers.BlockTag): Promise<{principalsOut:Decimal, yieldsOut:Decimal}> {
+    const p = await super.getTokensOutGivenLPIn(inAmount, blockTag);
+    return {principalsOut: p.token0Out, yieldsOut: p.token1Out};
+  }
+
+  async getLPTokensOutForTokensIn(principalsAmountIn:Numberish, yieldsAmountIn:Numberish, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return super.getLPTokensOutForTokensIn(principalsAmountIn, yieldsAmountIn, blockTag);
+  }
+
+  async getLPTokensInGivenTokensOut(principalStaked:Numberish, yieldsStaked:Numberish, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return super.getLPTokensInGivenTokensOut(principalStaked, yieldsStaked, blockTag);
   }
 
   async provideLiquidity(from: Signer, principals: Number, yields: Number): Promise<void> {
     await super.provideLiquidity(from, principals, yields);
   }
+
+  /**
+   * Reads the AMM balances, amplification, swap fee and LP supply at the same block
+   * @param blockTag Block to read at, default is the latest block
+   */
+  async snapshot(blockTag:providers.BlockTag = "latest"): Promise<PoolAMMSnapshot> {
+    const block = await this.contract.provider.getBlock(blockTag);
+    const at = { blockTag: block.number };
+    const [principals, yields, lpTotalSupply, amp, swapFee] = await Promise.all([
+      this.principalShare.contract.balanceOf(this.address, at),
+      this.yieldShare.contract.balanceOf(this.address, at),
+      this.contract.totalSupply(at),
+      this.contract.getAmplificationParameter(at),
+      this.contract.swapFeePercentage(at)
+    ]);
+    return {
+      blockNumber: block.number,
+      blockTimestamp: block.timestamp,
+      principals: this.principalShare.toDecimal(principals),
+      yields: this.yieldShare.toDecimal(yields),
+      lpTotalSupply: this.toDecimal(lpTotalSupply),
+      amplification: amp.value.toNumber() / amp.precision.toNumber(),
+      isAmplificationUpdating: amp.isUpdating,
+      swapFeePercentage: this.toDecimal(swapFee)
+    };
+  }
 }
@@ -1,14 +1,90 @@
+import { BigNumber, Contract, providers, utils } from "ethers";
+import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
 import { Numberish } from "@tempus-labs/utils/ts/utils/DecimalUtils";
 import { Signer, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
 import { Transaction } from "@ethersproject/transactions";
+import { TypedDataDomain, TypedDataSigner } from "@ethersproject/abstract-signer";
+import { SignerOrProvider, abiLoader } from "./ContractLoader";
+
+/**
+ * EIP-712 type of ERC20Votes.delegateBySig
+ */
+const DELEGATION_TYPES = {
+  Delegation: [
+    { name: "delegatee", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" }
+  ]
+};
+
+/**
+ * Signed delegation, which anyone can submit with `delegateBySig`
+ */
+export interface DelegationSignature {
+  delegatee:string;
+  nonce:number;
+  expiry:number; // timestamp in seconds
+  v:number;
+  r:string;
+  s:string;
+}
+
+/**
+ * Voting power of an account starting from `fromBlock`
+ */
+export interface VoteCheckpoint {
+  fromBlock:number;
+  votes:Decimal;
+}
+
+/**
+ * Voting power of all delegates at a past block
+ */
+export interface VotingPowerSnapshot {
+  blockNumber:number;
+  totalSupply:Decimal;
+  delegates:{ account:string; votes:Decimal }[]; // ordered by votes, descending, without zero votes
+}
+
+/**
+ * Signs an ERC20Votes delegation without any network access, eg on an offline machine
+ * @param signer Token holder whose votes are delegated
+ * @param domain EIP-712 domain of the token, @see TempusToken.delegationDomain
+ * @param delegatee Account receiving the voting power
+ * @param nonce Current `nonces(signer)` of the token
+ * @param expiry Signature is invalid after this time
+ */
+export async function signDelegation(
+  signer:TypedDataSigner,
+  domain:TypedDataDomain,
+  delegatee:Addressable,
+  nonce:number,
+  expiry:Date
+): Promise<DelegationSignature> {
+  const value = {
+    delegatee: addressOf(delegatee),
+    nonce: nonce,
+    expiry: Math.floor(expiry.getTime() / 1000)
+  };
+  const { v, r, s } = utils.splitSignature(await signer._signTypedData(domain, DELEGATION_TYPES, value));
+  return { ...value, v, r, s };
+}
 
 /**
  * Type safe wrapper of TempusToken
  */
 export class TempusToken extends ERC20 {
-  constructor() {
-    super("TempusToken", 18);
+  constructor(contract?:Contract) {
+    super("TempusToken", 18, contract);
+  }
+
+  /**
+   * Connects to an already deployed TempusToken with the ABI bundled in the SDK, without hardhat
+   * @param signerOrProvider Signer for sending transactions, or a Provider for read-only access
+   */
+  static async connect(address:string, signerOrProvider:SignerOrProvider): Promise<TempusToken> {
+    return new TempusToken(await abiLoader(signerOrProvider)("TempusToken", address));
   }
 
   /**
@@ -55,4 +131,110 @@ export class TempusToken extends ERC20 {
   async MINT_CAP(): Promise<Numberish> {
     return this.contract.MINT_CAP();
   }
+
+  /**
+   * Delegates all votes of the sender, including future balance changes
+   * @param sender Token holder
+   * @param delegatee Account receiving the voting power, can be the sender itself
+   */
+  async delegate(sender:Signer, delegatee:Addressable): Promise<Transaction> {
+    return this.connect(sender).delegate(addressOf(delegatee));
+  }
+
+  /**
+   * Submits a delegation signed with `signDelegation` or `createDelegationSignature`
+   * @param sender Any account paying for the transaction
+   */
+  async delegateBySig(sender:Signer, signature:DelegationSignature): Promise<Transaction> {
+    const { delegatee, nonce, expiry, v, r, s } = signature;
+    return this.connect(sender).delegateBySig(delegatee, nonce, expiry, v, r, s);
+  }
+
+  /**
+   * @returns EIP-712 domain for signing delegations of this token
+   */
+  async delegationDomain(): Promise<TypedDataDomain> {
+    const [name, network] = await Promise.all([this.contract.name(), this.contract.provider.getNetwork()]);
+    return { name: name, version: "1", chainId: network.chainId, verifyingContract: this.address };
+  }
+
+  /**
+   * Signs a delegation with the current nonce of @param signer, to be submitted later by anyone
+   * @param signer Token holder whose votes are delegated
+   * @param delegatee Account receiving the voting power
+   * @param expiry Signature is invalid after this time
+   */
+  async createDelegationSignature(signer:Signer, delegatee:Addressable, expiry:Date): Promise<DelegationSignature> {
+    const [domain, nonce] = await Promise.all([
+      this.delegationDomain(),
+      this.contract.nonces(addressOf(signer))
+    ]);
+    return signDelegation(signer, domain, delegatee, nonce.toNumber(), expiry);
+  }
+
+  /**
+   * @returns Account that @param account delegates its votes to, zero address if none
+   */
+  async delegates(account:Addressable, blockTag?:providers.BlockTag): Promise<string> {
+    return this.contract.delegates(addressOf(account), { blockTag });
+  }
+
+  /**
+   * @returns Current voting power of @param account, only delegated tokens count as votes
+   */
+  async getVotes(account:Addressable, blockTag?:providers.BlockTag): Promise<Decimal> {
+    return this.toDecimal(await this.contract.getVotes(addressOf(account), { blockTag }));
+  }
+
+  /**
+   * @param blockNumber Past block, must already be mined
+   * @returns Voting power of @param account at the end of @param blockNumber
+   */
+  async getPastVotes(account:Addressable, blockNumber:number): Promise<Decimal> {
+    return this.toDecimal(await this.contract.getPastVotes(addressOf(account), blockNumber));
+  }
+
+  /**
+   * @param blockNumber Past block, must already be mined
+   * @returns Total supply at the end of @param blockNumber
+   */
+  async getPastTotalSupply(blockNumber:number): Promise<Decimal> {
+    return this.toDecimal(await this.contract.getPastTotalSupply(blockNumber));
+  }
+
+  /**
+   * @returns All voting power checkpoints of @param account, oldest first
+   */
+  async checkpoints(account:Addressable, blockTag?:providers.BlockTag): Promise<VoteCheckpoint[]> {
+    const count:number = await this.contract.numCheckpoints(addressOf(account), { blockTag });
+    const checkpoints = await Promise.all([...Array(count).keys()].map(
+      pos => this.contract.checkpoints(addressOf(account), pos, { blockTag })
+    ));
+    return checkpoints.map(c => ({ fromBlock: c.fromBlock, votes: this.toDecimal(c.votes) }));
+  }
+
+  /**
+   * Exports the voting power of every delegate at a past block, eg for off-chain governance votes.
+   * Delegates are found from DelegateVotesChanged events.
+   * @param blockNumber Past block, must already be mined
+   * @param fromBlock First block to search for delegates, eg the deployment block
+   */
+  async votingPowerSnapshot(blockNumber:number, fromBlock:providers.BlockTag = 0): Promise<VotingPowerSnapshot> {
+    const events = await this.contract.queryFilter(this.contract.filters.DelegateVotesChanged(), fromBlock, blockNumber);
+    const accounts:string[] = [...new Set(events.map(e => e.args.delegate as string))];
+    const [totalSupply, votes] = await Promise.all([
+      this.contract.getPastTotalSupply(blockNumber),
+      Promise.all(accounts.map(a => this.contract.getPastVotes(a, blockNumber)))
+    ]);
+
+    const delegates = accounts
+      .map((account, i) => ({ account: account, votes: votes[i] as BigNumber }))
+      .filter(d => !d.votes.isZero())
+      .sort((a, b) => b.votes.gt(a.votes) ? 1 : b.votes.lt(a.votes) ? -1 : 0);
+    return {
+      blockNumber: blockNumber,
+      totalSupply: this.toDecimal(totalSupply),
+      delegates: delegates.map(d => ({ account: d.account, votes: this.toDecimal(d.votes) }))
+    };
+  }
 }
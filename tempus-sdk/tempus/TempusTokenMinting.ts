@@ -0,0 +1,190 @@
+import { BigNumber, PopulatedTransaction, constants, providers, utils } from "ethers";
+import { Decimal, decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { Numberish, parseDecimal } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { TempusToken } from "./TempusToken";
+import { TransactionBuilder } from "./TransactionBuilder";
+
+/**
+ * TempusToken state which limits minting, read at a single block
+ */
+export interface MintingState {
+  timestamp:number; // block timestamp of the state
+  totalSupply:Decimal;
+  mintingAllowedAfter:number;
+  lastMintingTime:number;
+  minTimeBetweenMints:number; // seconds
+  mintCap:number; // max percentage of totalSupply minted at once, eg 2 for 2%
+}
+
+/**
+ * Next mint allowed by TempusToken.mint
+ */
+export interface MintWindow {
+  time:number; // earliest timestamp of the next mint
+  maxAmount:Decimal; // mint cap at the current total supply
+}
+
+/**
+ * A single mint of an emission schedule
+ */
+export interface PlannedMint {
+  time:number; // timestamp at which the mint is executed
+  recipient:Addressable;
+  amount:Numberish;
+}
+
+/**
+ * Result of checking a single PlannedMint, after all previous mints of the schedule were executed
+ */
+export interface CheckedMint {
+  mint:PlannedMint;
+  earliestTime:number;
+  maxAmount:Decimal;
+  totalSupplyAfter:Decimal;
+  error?:string; // revert reason of TempusToken.mint, undefined if the mint succeeds
+}
+
+/**
+ * Mint transaction which can be executed once `executeAfter` has passed.
+ * `executeAfter` assumes the previous mints were executed on time, @see mintExecutionTime
+ */
+export interface ScheduledMintTransaction {
+  executeAfter:number;
+  transaction:PopulatedTransaction;
+}
+
+/**
+ * @returns Minting state of @param token at @param blockTag
+ */
+export async function readMintingState(token:TempusToken, blockTag:providers.BlockTag = "latest"): Promise<MintingState> {
+  const block = await token.contract.provider.getBlock(blockTag);
+  const c = token.contract;
+  const [totalSupply, allowedAfter, lastMinting, minTime, cap] = await Promise.all([
+    c.totalSupply({ blockTag: block.number }),
+    c.mintingAllowedAfter({ blockTag: block.number }),
+    c.lastMintingTime({ blockTag: block.number }),
+    c.MIN_TIME_BETWEEN_MINTS({ blockTag: block.number }),
+    c.MINT_CAP({ blockTag: block.number })
+  ]);
+  return {
+    timestamp: block.timestamp,
+    totalSupply: token.toDecimal(totalSupply),
+    mintingAllowedAfter: BigNumber.from(allowedAfter).toNumber(),
+    lastMintingTime: BigNumber.from(lastMinting).toNumber(),
+    minTimeBetweenMints: BigNumber.from(minTime).toNumber(),
+    mintCap: BigNumber.from(cap).toNumber()
+  };
+}
+
+/**
+ * @returns Earliest time and maximum amount of the next mint, if total supply does not change until then
+ */
+export function nextMint(state:MintingState): MintWindow {
+  return {
+    time: earliestMintTime(state.mintingAllowedAfter, state.lastMintingTime, state.minTimeBetweenMints),
+    maxAmount: toDecimal(mintCapOf(wei(state.totalSupply.toString()), state.mintCap))
+  };
+}
+
+/**
+ * Simulates an emission schedule with the same checks as TempusToken.mint.
+ * Every mint raises the total supply and the cap of the following mints,
+ * so a failed mint is treated as not executed.
+ * @param state Current minting state, @see readMintingState
+ * @param schedule Mints in execution order
+ * @returns Checks of every mint, in schedule order
+ */
+export function checkEmissionSchedule(state:MintingState, schedule:PlannedMint[]): CheckedMint[] {
+  let supply = wei(state.totalSupply.toString());
+  let lastMintingTime = state.lastMintingTime;
+  let previousTime = state.timestamp;
+
+  return schedule.map((mint:PlannedMint) => {
+    const earliestTime = earliestMintTime(state.mintingAllowedAfter, lastMintingTime, state.minTimeBetweenMints);
+    const maxAmount = mintCapOf(supply, state.mintCap);
+    const amount = wei(mint.amount);
+
+    let error:string|undefined;
+    if (mint.time < previousTime) {
+      error = "Mint at " + mint.time + " is scheduled before the previous mint or the current block";
+    } else if (addressOf(mint.recipient) === constants.AddressZero) {
+      error = "Can not mint to 0x0.";
+    } else if (mint.time < state.mintingAllowedAfter) {
+      error = "Minting not allowed yet.";
+    } else if (mint.time < earliestTime) {
+      error = "Not enough time between mints.";
+    } else if (amount.gt(maxAmount)) {
+      error = "Mint cap limit.";
+    }
+
+    if (!error) {
+      supply = supply.add(amount);
+      lastMintingTime = mint.time;
+      previousTime = mint.time;
+    }
+    return {
+      mint: mint,
+      earliestTime: earliestTime,
+      maxAmount: toDecimal(maxAmount),
+      totalSupplyAfter: toDecimal(supply),
+      ...(error ? { error } : {})
+    };
+  });
+}
+
+/**
+ * Builds the mint transactions of a valid emission schedule.
+ * TempusToken counts the time between mints from the real execution of the previous mint,
+ * so a late mint delays the following ones, use `mintExecutionTime` before sending each of them
+ * @param owner Owner of TempusToken
+ * @param state Current minting state, @see readMintingState
+ * @param schedule Mints in execution order
+ * @returns Mint transactions with the time after which each one can be executed
+ */
+export function populateEmissionSchedule(
+  token:TempusToken,
+  owner:Addressable,
+  state:MintingState,
+  schedule:PlannedMint[]
+): ScheduledMintTransaction[] {
+  const checks = checkEmissionSchedule(state, schedule);
+  const invalid = checks.findIndex(c => c.error !== undefined);
+  if (invalid >= 0) {
+    throw new Error("Emission schedule mint #" + (invalid + 1) + " would fail: " + checks[invalid].error);
+  }
+  return schedule.map((mint:PlannedMint) => ({
+    executeAfter: mint.time,
+    transaction: new TransactionBuilder(owner).call(token, "mint", [addressOf(mint.recipient), wei(mint.amount)]).transactions[0]
+  }));
+}
+
+/**
+ * @returns Earliest time to send @param scheduled, which is later than its `executeAfter`
+ * if the previous mint was executed late
+ * @param blockTag Block to read the time of the previous mint at, default is the latest block
+ */
+export async function mintExecutionTime(
+  token:TempusToken,
+  scheduled:ScheduledMintTransaction,
+  blockTag:providers.BlockTag = "latest"
+): Promise<number> {
+  return Math.max(scheduled.executeAfter, nextMint(await readMintingState(token, blockTag)).time);
+}
+
+function earliestMintTime(mintingAllowedAfter:number, lastMintingTime:number, minTimeBetweenMints:number): number {
+  return Math.max(mintingAllowedAfter, lastMintingTime + minTimeBetweenMints);
+}
+
+// same rounding as `(MINT_CAP * totalSupply()) / 100`
+function mintCapOf(totalSupply:BigNumber, mintCap:number): BigNumber {
+  return totalSupply.mul(mintCap).div(100);
+}
+
+function wei(amount:Numberish): BigNumber {
+  return BigNumber.from(parseDecimal(amount, 18).toString());
+}
+
+function toDecimal(amount:BigNumber): Decimal {
+  return decimal(utils.formatEther(amount), 18);
+}
@@ -0,0 +1,89 @@
+import { BigNumberish, PopulatedTransaction, Transaction } from "ethers";
+import { Numberish } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { ContractBase, Signer, Addressable, addressOf } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
+import { IERC20 } from "@tempus-labs/utils/ts/token/IERC20";
+import { ERC20Ether } from "@tempus-labs/utils/ts/token/ERC20Ether";
+import { hasAllowance } from "./Allowances";
+import { TempusErrorContext, withTempusErrors } from "./TempusErrors";
+
+/**
+ * Collects unsigned transactions of a single sender, in the order they must be executed.
+ * Every SDK write method has a `populate*` counterpart which returns these transactions,
+ * so they can be signed elsewhere, eg by a multisig
+ */
+export class TransactionBuilder {
+  readonly from:string;
+  readonly transactions:PopulatedTransaction[] = [];
+
+  constructor(from:Addressable) {
+    this.from = addressOf(from);
+  }
+
+  /**
+   * Adds a contract call
+   * @param target Contract to call
+   * @param method Name of the contract method
+   * @param args Contract arguments, already converted to contract precision
+   * @param value Ether value sent with the call, in wei
+   */
+  call(target:ContractBase, method:string, args:any[], value?:BigNumberish): TransactionBuilder {
+    this.transactions.push({
+      from: this.from,
+      to: target.address,
+      data: target.contract.interface.encodeFunctionData(method, args),
+      ...(value !== undefined ? { value: value } : {})
+    });
+    return this;
+  }
+
+  /**
+   * Adds an ERC20 approval, Ether does not need approvals
+   * @param token Token to approve
+   * @param spender Contract which will transfer the tokens
+   * @param amount Amount of tokens in token decimals
+   */
+  approve(token:IERC20, spender:Addressable, amount:Numberish): TransactionBuilder {
+    if (token instanceof ERC20Ether) {
+      return this;
+    }
+    const erc20 = token as ERC20;
+    return this.call(erc20, "approve", [addressOf(spender), erc20.toBigNum(amount)]);
+  }
+
+  /**
+   * Adds an exact ERC20 approval, unless the existing allowance already covers `amount`
+   * @param token Token to approve
+   * @param spender Contract which will transfer the tokens
+   * @param amount Amount of tokens in token decimals
+   */
+  async allow(token:IERC20, spender:Addressable, amount:Numberish): Promise<TransactionBuilder> {
+    if (!await hasAllowance(token, this.from, spender, amount)) {
+      this.approve(token, spender, amount);
+    }
+    return this;
+  }
+}
+
+/**
+ * Signs and sends the transactions in order. Every transaction before the last is mined first,
+ * otherwise the gas estimate of the main call would revert on its pending approvals
+ * @param context Optional pool and AMM, used to convert the amounts of a contract error
+ * @returns The last sent transaction, which is the main call after any approvals
+ * @throws TempusError decoded from the contract revert
+ */
+export async function sendTransactions(
+  signer:Signer,
+  transactions:PopulatedTransaction[],
+  context:TempusErrorContext = {}
+): Promise<Transaction> {
+  if (transactions.length === 0) {
+    throw new Error("No transactions to send");
+  }
+  return withTempusErrors((async () => {
+    for (const tx of transactions.slice(0, -1)) {
+      await (await signer.sendTransaction(tx)).wait();
+    }
+    return signer.sendTransaction(transactions[transactions.length - 1]);
+  })(), context);
+}
@@ -0,0 +1,32 @@
+import { setEvmTime } from "@tempus-labs/utils/ts/utils/Utils";
+import { TempusAMM } from "../tempus/TempusAMM";
+
+/**
+ * Moves EVM time to when an amplification update started with `TempusAMM.startAmplificationUpdate`
+ * reaches @param rawAmpValue
+ * @param rawAmpValue Amplification without AMP_PRECISION, must be between the start and target amplification
+ */
+export async function forwardToAmplification(amm:TempusAMM, rawAmpValue:number): Promise<void> {
+  let targetTimestamp:number;
+  const ampParam = await amm.getAmplificationParam();
+  const ampValue = Math.trunc(+rawAmpValue * ampParam.precision);
+
+  if (amm.startAmp == ampValue) {
+    targetTimestamp = 0;
+  }
+  else if (amm.targetAmp > amm.startAmp) {
+    if (ampValue > amm.targetAmp || ampValue < amm.startAmp) {
+      throw new Error("Wrong amplification update!");
+    }
+    targetTimestamp = amm.startedAmpUpdateTime + (ampValue - amm.startAmp) / ampParam.precision * amm.oneAmpUpdateTime;
+  } else {
+    if (ampValue < amm.targetAmp || ampValue > amm.startAmp) {
+      throw new Error("Wrong amplification update!");
+    }
+    targetTimestamp = amm.startedAmpUpdateTime + (amm.startAmp - ampValue) / ampParam.precision * amm.oneAmpUpdateTime;
+  }
+
+  if (targetTimestamp > 0) {
+    return setEvmTime(targetTimestamp);
+  }
+}
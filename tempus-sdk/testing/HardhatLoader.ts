@@ -0,0 +1,9 @@
+import { ContractBase } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { ContractLoader } from "../tempus/ContractLoader";
+
+/**
+ * Loads contracts from hardhat artifacts, only available inside a hardhat project
+ */
+export const hardhatLoader:ContractLoader = (contractName:string, address:string) => {
+  return ContractBase.attachContract(contractName, address);
+};
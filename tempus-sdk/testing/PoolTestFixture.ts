@@ -4,16 +4,25 @@ import { expect } from "chai";
 import { Transaction } from "ethers";
 import { deployments, ethers } from "hardhat";
 import { ContractBase, Signer, Addressable } from "@tempus-labs/utils/ts/utils/ContractBase";
-import { TempusPool, PoolType, TempusSharesNames, generateTempusSharesNames } from "./TempusPool";
+import { TempusPool, PoolType, TempusSharesNames, generateTempusSharesNames } from "../tempus/TempusPool";
 import { blockTimestamp, setEvmTime, setNextBlockTimestamp, getRevertMessage } from "@tempus-labs/utils/ts/utils/Utils";
 import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
 import { IERC20 } from "@tempus-labs/utils/ts/token/IERC20";
 import { Numberish } from "@tempus-labs/utils/ts/utils/DecimalUtils";
 import { TempusController } from "../tempus/TempusController";
 import { TempusPoolAMM } from "../tempus/TempusPoolAMM";
+import { TempusMarket } from "../tempus/TempusMarket";
 import { PoolShare } from "../tempus/PoolShare";
 import { strict as assert } from 'assert';
 
+export interface TokenInfo {
+  decimals:number;
+  name:string;
+  symbol:string;
+  totalSupply?:number;
+  deploymentName?:string; // name from git/deployments/mainnet/*.json
+}
+
 const ROUNDING_ERROR_TOLERANCE_THRESHOLD = 0.00000001; /// allow for 0.000001% error in YBT amounts 
 export interface BalancesExpectation {
   tps:number; // expected TPS balance
@@ -188,6 +197,29 @@ export abstract class PoolTestFixture {
     return this.create({ initialRate:1.0, poolDuration:60*60, yieldEst:0.1 });
   }
 
+  /**
+   * Deploys another TempusPool of the same YBT and underlying pool, registered with the same controller.
+   * Must be called after `create`, the new pool is not restored by the fixture
+   * @param maturityTime Maturity of the new pool, eg `this.maturityTime + 60*60`
+   */
+  async deployAnotherPool(maturityTime:number): Promise<TempusPool> {
+    const names = generateTempusSharesNames(this.ybt.name, this.ybt.symbol, maturityTime);
+    return TempusPool.deploy(
+      this.type, this.signers[0], this.controller, this.asset, this.ybt, maturityTime, this.yieldEst, names, this.pool.address
+    );
+  }
+
+  /**
+   * Same as `deployAnotherPool`, with a new TempusAMM using the default AMM parameters of `create`
+   */
+  async deployAnotherMarket(maturityTime:number): Promise<TempusMarket> {
+    const tempus = await this.deployAnotherPool(maturityTime);
+    const amm = await TempusPoolAMM.create(this.signers[0], this.controller, tempus.principalShare, tempus.yieldShare,
+      /*ampStart*/5, /*ampEnd*/5, maturityTime, /*swapFee*/0.02
+    );
+    return { tempus: tempus, amm: amm };
+  }
+
   /**
    * @param rate Sets the Interest Rate for the underlying mock pool
    */
@@ -318,7 +350,7 @@ export abstract class PoolTestFixture {
    */
   async setTimeDaysAfterPoolStart(days: number): Promise<void> {
     assert.ok(days > 0);
-    const startTime:number = +await this.tempus.startTime();
+    const startTime:number = Number(await this.tempus.startTime());
     const desiredTime:number = startTime + (days * 24*60*60);
     await setEvmTime(desiredTime);
   }
@@ -328,8 +360,8 @@ export abstract class PoolTestFixture {
    */
   async setTimeRelativeToPoolStart(percentDuration: number): Promise<void> {
     assert.ok(percentDuration >= 0.0 && percentDuration <= 1.0);
-    const startTime:number = +await this.tempus.startTime();
-    const duration:number = +await this.tempus.maturityTime() - startTime;
+    const startTime:number = Number(await this.tempus.startTime());
+    const duration:number = Number(await this.tempus.maturityTime()) - startTime;
     await setEvmTime(startTime + percentDuration * duration);
   }
 
@@ -338,8 +370,8 @@ export abstract class PoolTestFixture {
    */
   async setNextBlockTimestampRelativeToPoolStart(percentDuration: number): Promise<void> {
     assert.ok(percentDuration >= 0.0 && percentDuration <= 1.0);
-    const startTime:number = +await this.tempus.startTime();
-    const duration:number = +await this.tempus.maturityTime() - startTime;
+    const startTime:number = Number(await this.tempus.startTime());
+    const duration:number = Number(await this.tempus.maturityTime()) - startTime;
     await setNextBlockTimestamp(startTime + percentDuration * duration);
   }
 
@@ -0,0 +1,6 @@
+/**
+ * Test helpers, which require hardhat, hardhat-deploy and chai
+ */
+export * from "./HardhatLoader";
+export * from "./PoolTestFixture";
+export * from "./AmmTestUtils";
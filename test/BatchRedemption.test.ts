@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { setEvmTime } from "@tempus-labs/utils/ts/utils/Utils";
+import { TempusPool } from "@tempus-sdk/tempus/TempusPool";
+import { TempusController } from "@tempus-sdk/tempus/TempusController";
+import { Stats } from "@tempus-sdk/tempus/Stats";
+import { sendTransactions } from "@tempus-sdk/tempus/TransactionBuilder";
+import { redeemAllMatured } from "@tempus-sdk/tempus/BatchRedemption";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
+
+describeForEachPool("BatchRedemption", (testPool:PoolTestFixture) =>
+{
+  let owner:Signer, user1:Signer, user2:Signer;
+  let pool:TempusPool;
+  let controller:TempusController;
+  let stats:Stats;
+
+  beforeEach(async () =>
+  {
+    pool = await testPool.createDefault();
+    [owner, user1, user2] = testPool.signers;
+    controller = testPool.controller;
+    stats = await Stats.create();
+    await testPool.setupAccounts(owner, [[user1,/*ybt*/1000],[user2,/*ybt*/10000]]);
+
+    await controller.depositYieldBearing(user2, pool, 1000, user2);
+    await testPool.amm.provideLiquidity(user2, 100, 1000);
+  });
+
+  it("Redeems LP tokens, shares and yields only positions of all matured pools", async () =>
+  {
+    const yieldsOnly = await testPool.deployAnotherPool(testPool.maturityTime + 60);
+    const active = await testPool.deployAnotherPool(testPool.maturityTime + 24*60*60);
+    const empty = await testPool.deployAnotherPool(testPool.maturityTime + 60);
+
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+    await controller.depositAndProvideLiquidity(testPool, user1, 100, /*isBackingToken*/false);
+    await controller.depositYieldBearing(user1, yieldsOnly, 100, user1);
+    await yieldsOnly.principalShare.transfer(user1, user2, (await yieldsOnly.principalShare.balanceOf(user1)).toString());
+    await controller.depositYieldBearing(user1, active, 100, user1);
+
+    await testPool.setInterestRate(1.1);
+    await setEvmTime(testPool.maturityTime + 61);
+
+    const plan = await redeemAllMatured(user1, [testPool, yieldsOnly, active, empty], stats);
+    expect(plan.toBackingToken).to.be.false;
+    expect(plan.notMatured.map(p => p.address)).to.deep.equal([active.address]);
+    expect(plan.redemptions.map(r => r.pool.address)).to.deep.equal([pool.address, yieldsOnly.address]);
+
+    const [lpRedemption, yieldsRedemption] = plan.redemptions;
+    expect(lpRedemption.finalize).to.be.true;
+    expect(lpRedemption.amm).to.equal(testPool.amm);
+    expect(+lpRedemption.lpTokens).to.be.greaterThan(0);
+    expect(+yieldsRedemption.principals).to.equal(0);
+    expect(+yieldsRedemption.yields).to.be.greaterThan(0);
+    expect(+yieldsRedemption.estimatedAmount).to.be.greaterThan(0, "yields are worth the accrued interest");
+
+    const ybtBefore = +await testPool.ybt.balanceOf(user1);
+    await sendTransactions(user1, plan.transactions);
+    const estimated = +lpRedemption.estimatedAmount + +yieldsRedemption.estimatedAmount;
+    expect(+await testPool.ybt.balanceOf(user1) - ybtBefore).to.be.closeTo(estimated, estimated * 0.0001);
+
+    expect(await pool.isFinalized()).to.be.true;
+    expect(+await testPool.amm.balanceOf(user1)).to.equal(0);
+    expect(+await pool.principalShare.balanceOf(user1)).to.equal(0);
+    expect(+await pool.yieldShare.balanceOf(user1)).to.equal(0);
+    expect(+await yieldsOnly.yieldShare.balanceOf(user1)).to.equal(0);
+    expect(+await active.principalShare.balanceOf(user1)).to.be.greaterThan(0, "active pool is not redeemed");
+  });
+
+  it("Redeems to BT only where the pool supports it", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+    await testPool.fastForwardToMaturity();
+
+    const plan = await redeemAllMatured(user1, [testPool], stats, /*toBackingToken*/true);
+    expect(plan.toBackingToken).to.be.true;
+    const [redemption] = plan.redemptions;
+    expect(redemption.toBackingToken).to.equal(!testPool.acceptsEther, "Lido can only redeem to YBT");
+
+    const token = redemption.toBackingToken ? testPool.asset : testPool.ybt;
+    const before = +await token.balanceOf(user1);
+    await sendTransactions(user1, plan.transactions);
+    expect(+await token.balanceOf(user1)).to.be.greaterThan(before);
+    expect(+await pool.principalShare.balanceOf(user1)).to.equal(0);
+    expect(+await pool.yieldShare.balanceOf(user1)).to.equal(0);
+  });
+
+  it("Plans nothing before maturity", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+
+    const plan = await redeemAllMatured(user1, [testPool], stats, /*toBackingToken*/true);
+    expect(plan.redemptions.length).to.equal(0);
+    expect(plan.transactions.length).to.equal(0);
+    expect(plan.notMatured.map(p => p.address)).to.deep.equal([pool.address]);
+
+    const noHoldings = await redeemAllMatured(owner, [testPool], stats);
+    expect(noHoldings.notMatured.length).to.equal(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { YEAR, getImpliedFixedApr, getImpliedFixedAprForDeposit, getImpliedVariableApr } from "@tempus-sdk/tempus/ImpliedApr";
+import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
+
+describeForEachPool("ImpliedApr", (pool:PoolTestFixture) =>
+{
+  let owner:Signer, user:Signer;
+
+  beforeEach(async () =>
+  {
+    await pool.createDefault();
+    [owner, user] = pool.signers;
+    await pool.setupAccounts(owner, [[user, 10000]]);
+
+    // TPS:TYS value ratio of 1:1 at rate 1.0 and estimated yield of 10%
+    await pool.tempus.controller.depositYieldBearing(user, pool.tempus, 1200, user);
+    await pool.amm.provideLiquidity(user, 120, 1200);
+  });
+
+  it("Fixed APR is the remaining estimated yield minus swap fees", async () =>
+  {
+    const fixedApr = await getImpliedFixedApr(pool.tempus, pool.amm);
+    const snapshot = await pool.tempus.snapshot();
+    const timeToMaturity = Number(snapshot.maturityTime) - snapshot.blockTimestamp;
+
+    const fixedReturn = fixedApr.toNumber() * timeToMaturity / YEAR;
+    expect(fixedReturn).to.be.within(0.08, 0.1, "~10% estimated yield minus 2% swap fee on TYS");
+  });
+
+  it("Fixed APR of a deposit includes price impact", async () =>
+  {
+    const spotApr = (await getImpliedFixedApr(pool.tempus, pool.amm)).toNumber();
+    const smallDepositApr = (await getImpliedFixedAprForDeposit(pool.tempus, pool.amm, 0.01, /*BT*/true)).toNumber();
+    const largeDepositApr = (await getImpliedFixedAprForDeposit(pool.tempus, pool.amm, 1000, /*BT*/true)).toNumber();
+
+    expect(smallDepositApr).to.be.closeTo(spotApr, spotApr * 0.01, "small deposits get the spot APR");
+    expect(largeDepositApr).to.be.lessThan(smallDepositApr, "large deposits move the price");
+  });
+
+  it("Fixed APR of a deposit includes price impact with skewed reserves", async () =>
+  {
+    const balancedApr = (await getImpliedFixedApr(pool.tempus, pool.amm)).toNumber();
+
+    // selling TPS for TYS leaves the AMM with more TPS and less TYS
+    await pool.amm.swapGivenInOrOut(user, pool.tempus.principalShare.address, pool.tempus.yieldShare.address, 50);
+    const reserves = await pool.amm.snapshot();
+    expect(+reserves.yields / +reserves.principals).to.be.lessThan(6, "reserves are skewed towards TPS");
+
+    const spotApr = (await getImpliedFixedApr(pool.tempus, pool.amm)).toNumber();
+    expect(spotApr).to.be.greaterThan(balancedApr, "TPS are cheaper");
+
+    const smallDepositApr = (await getImpliedFixedAprForDeposit(pool.tempus, pool.amm, 0.01, /*BT*/true)).toNumber();
+    const largeDepositApr = (await getImpliedFixedAprForDeposit(pool.tempus, pool.amm, 1000, /*BT*/true)).toNumber();
+    expect(smallDepositApr).to.be.closeTo(spotApr, spotApr * 0.01, "small deposits get the spot APR");
+    expect(largeDepositApr - smallDepositApr).to.be.lessThan(0, "swapping TYS in lowers the APR of large deposits");
+  });
+
+  it("Variable APR follows the interest rate growth", async () =>
+  {
+    await pool.setTimeRelativeToPoolStart(0.5);
+    await pool.setInterestRate(1.05);
+    await pool.tempus.updateInterestRate();
+
+    const snapshot = await pool.tempus.snapshot();
+    const expectedApr = 0.05 * YEAR / (snapshot.blockTimestamp - Number(snapshot.startTime));
+    expect((await getImpliedVariableApr(pool.tempus)).toNumber()).to.be.closeTo(expectedApr, expectedApr * 0.001);
+  });
+
+  it("Fixed APR cannot be calculated after maturity", async () =>
+  {
+    await pool.fastForwardToMaturity();
+    await pool.tempus.finalize();
+    const error = await getImpliedFixedApr(pool.tempus, pool.amm).catch(e => e);
+    expect(error.message).to.contain("matured");
+  });
+});
@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { decimal } from "@tempus-labs/utils/ts/utils/Decimal";
+import { setEvmTime } from "@tempus-labs/utils/ts/utils/Utils";
+import { TempusPool } from "@tempus-sdk/tempus/TempusPool";
+import {
+  AlertSeverity, NegativeYieldMonitor, PoolAlert, PoolAlertKind, consoleAlertSink, jsonAlertSink, webhookAlertSink
+} from "@tempus-sdk/tempus/NegativeYieldMonitor";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { describeForEachPool, describeNonPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
+
+const ONE_DAY = 24*60*60;
+
+describeNonPool("NegativeYieldMonitor sinks", () =>
+{
+  const alert:PoolAlert = {
+    kind: PoolAlertKind.NegativeYield,
+    severity: AlertSeverity.Warning,
+    pool: "0x0000000000000000000000000000000000000001",
+    blockNumber: 10,
+    timestamp: 1640000000,
+    initialInterestRate: decimal(1.0, 18),
+    currentInterestRate: decimal(0.9, 18),
+    negativeYieldSince: 1640000000,
+    projectedHaltTime: 1640000000 + 7*ONE_DAY,
+    message: "interest rate is below the initial rate"
+  };
+
+  it("Writes alerts as readable lines and JSON", async () =>
+  {
+    const lines:string[] = [];
+    await consoleAlertSink(line => lines.push(line))(alert);
+    await jsonAlertSink(line => lines.push(line))(alert);
+
+    expect(lines[0]).to.equal("[warning] NegativeYield " + alert.pool + ": " + alert.message);
+    const json = JSON.parse(lines[1]);
+    expect(json.kind).to.equal("NegativeYield");
+    expect(json.currentInterestRate).to.equal(alert.currentInterestRate.toString());
+    expect(json.projectedHaltTime).to.equal(alert.projectedHaltTime);
+  });
+
+  it("Posts alerts to a webhook", async () =>
+  {
+    const posted:{ url:string, body:string }[] = [];
+    await webhookAlertSink("https://alerts.example/tempus", async (url, body) => { posted.push({ url, body }); })(alert);
+
+    expect(posted.length).to.equal(1);
+    expect(posted[0].url).to.equal("https://alerts.example/tempus");
+    expect(JSON.parse(posted[0].body).initialInterestRate).to.equal(alert.initialInterestRate.toString());
+  });
+});
+
+describeForEachPool("NegativeYieldMonitor", (testPool:PoolTestFixture) =>
+{
+  let owner:Signer, user:Signer;
+  let pool:TempusPool;
+  let received:PoolAlert[];
+  let monitor:NegativeYieldMonitor;
+
+  beforeEach(async () =>
+  {
+    pool = await testPool.create({ initialRate:1.0, poolDuration:30*ONE_DAY, yieldEst:0.1 });
+    [owner, user] = testPool.signers;
+    await testPool.setupAccounts(owner, [[user, /*ybt*/500]]);
+
+    received = [];
+    monitor = new NegativeYieldMonitor([pool], [alert => { received.push(alert); }], { haltWarningPeriod: ONE_DAY });
+  });
+
+  it("Reports rate decreases, negative yield and recovery once", async () =>
+  {
+    expect(await monitor.poll()).to.deep.equal([]);
+
+    await testPool.setInterestRate(1.1);
+    expect(await monitor.poll()).to.deep.equal([]);
+    await testPool.setInterestRate(1.05);
+    expect((await monitor.poll()).map(a => a.kind)).to.deep.equal([PoolAlertKind.RateDecreased]);
+
+    await testPool.setInterestRate(0.9);
+    const [negativeYield] = await monitor.poll();
+    expect(negativeYield.kind).to.equal(PoolAlertKind.NegativeYield);
+    expect(negativeYield.severity).to.equal(AlertSeverity.Warning);
+    expect(negativeYield.pool).to.equal(pool.address);
+    expect(negativeYield.negativeYieldSince).to.equal(negativeYield.timestamp);
+    expect(negativeYield.projectedHaltTime).to.equal(negativeYield.timestamp + Number(await pool.maximumNegativeYieldDuration()));
+    expect(await monitor.poll()).to.deep.equal([], "negative yield is reported once");
+
+    await testPool.setInterestRate(1.0);
+    const [recovered] = await monitor.poll();
+    expect(recovered.kind).to.equal(PoolAlertKind.YieldRecovered);
+    expect(recovered.negativeYieldSince).to.equal(negativeYield.timestamp);
+
+    expect(received.map(a => a.kind)).to.deep.equal([
+      PoolAlertKind.RateDecreased, PoolAlertKind.NegativeYield, PoolAlertKind.YieldRecovered
+    ]);
+    expect(monitor.history(pool).length).to.equal(6);
+  });
+
+  it("Raises the alerts again if a sink failed", async () =>
+  {
+    let failures = 1;
+    const failingSink = () => {
+      if (failures-- > 0) {
+        throw new Error("sink is down");
+      }
+    };
+    monitor = new NegativeYieldMonitor([pool], [failingSink, alert => { received.push(alert); }]);
+
+    await testPool.setInterestRate(0.9);
+    const error = await monitor.poll().catch(e => e);
+    expect(error.message).to.equal("sink is down");
+    expect(monitor.history(pool).length).to.equal(0, "state is kept until the alerts are delivered");
+
+    const alerts = await monitor.poll();
+    expect(alerts.map(a => a.kind)).to.deep.equal([PoolAlertKind.NegativeYield]);
+    expect(received.map(a => a.kind)).to.deep.equal([PoolAlertKind.NegativeYield]);
+    expect(await monitor.poll()).to.deep.equal([]);
+  });
+
+  it("Projects and reports the exceptional halt", async () =>
+  {
+    await testPool.depositYBT(user, 100);
+    await testPool.setInterestRate(0.9);
+    const [negativeYield] = await monitor.poll();
+    expect(negativeYield.kind).to.equal(PoolAlertKind.NegativeYield);
+
+    // redeeming starts the negative yield period of the contract
+    await testPool.redeemToYBT(user, 1, 1);
+
+    await setEvmTime(negativeYield.projectedHaltTime - ONE_DAY / 2);
+    const [haltImminent] = await monitor.poll();
+    expect(haltImminent.kind).to.equal(PoolAlertKind.HaltImminent);
+    expect(haltImminent.severity).to.equal(AlertSeverity.Critical);
+    expect(haltImminent.projectedHaltTime).to.equal(negativeYield.projectedHaltTime);
+    expect(await monitor.poll()).to.deep.equal([]);
+
+    await setEvmTime(negativeYield.projectedHaltTime + ONE_DAY);
+    await testPool.redeemToYBT(user, 1, 1);
+    const [halted] = await monitor.poll();
+    expect(halted.kind).to.equal(PoolAlertKind.ExceptionalHalt);
+    expect(halted.exceptionalHaltTime).to.equal(Number(await pool.exceptionalHaltTime()));
+    expect(await pool.matured()).to.be.true;
+    expect(await monitor.poll()).to.deep.equal([]);
+  });
+});
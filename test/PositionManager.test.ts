@@ -3,12 +3,13 @@ import { ContractBase, Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
 import { PoolType, TempusPool } from "@tempus-sdk/tempus/TempusPool";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { TempusPoolAMM } from "@tempus-sdk/tempus/TempusPoolAMM";
 import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
 import { Numberish, toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
 import { Contract, constants } from "ethers";
 import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { PositionManager } from "@tempus-sdk/tempus/PositionManager";
 
 describeForEachPool("PositionManager", (testPool:PoolTestFixture) =>
 {
@@ -226,6 +227,56 @@ describeForEachPool("PositionManager", (testPool:PoolTestFixture) =>
     }
   });
 
+  it("verifies the wrapper mints and burns positions with decimal params", async () => {
+    const wrapper = new PositionManager(positionManager);
+    const deadline = new Date(2594275590 * 1000);
+    const mintTx = await wrapper.mint(user1, testPool, {
+      leverageMultiplier: 2.0,
+      tokenAmountToDeposit: 1.0,
+      worstAcceptableCapitalsRate: "9.0",
+      deadline: deadline,
+      recipient: user1,
+      isBackingToken: false
+    });
+
+    const minted = await wrapper.mintedEvent(mintTx, testPool);
+    const pos = await wrapper.position(minted.tokenId, pool);
+    expect(minted.tokenId).to.equal(1);
+    expect(minted.minter).to.equal(user1.address);
+    expect(+minted.leverageMultiplier).to.equal(2);
+    expect(+minted.tokenAmountDeposited).to.equal(1);
+    expect(minted.capitalsReceived).to.eql(pos.capitals);
+    expect(minted.yieldsReceived).to.eql(pos.yields);
+    expect(pos.amm).to.equal(amm.address);
+
+    const burnTx = await wrapper.burn(user1, testPool, minted.tokenId, {
+      maxLeftoverShares: "0.01",
+      yieldsRate: "0.1",
+      maxSlippage: 0.03,
+      deadline: deadline,
+      recipient: user2,
+      toBackingToken: false
+    });
+    const burned = await wrapper.burnedEvent(burnTx, testPool);
+    expect(burned.tokenId).to.equal(1);
+    expect(burned.recipient).to.equal(user2.address);
+    expect(+burned.liquidatedTokenAmount).to.be.greaterThan(0);
+    expect((await wrapper.position(1, pool)).amm).to.equal(constants.AddressZero);
+  });
+
+  it("verifies the wrapper enumerates the positions of an owner", async () => {
+    const wrapper = new PositionManager(positionManager);
+    await mint(user1, /*leverage*/2.0, /*deposit*/1.0, /*worstRate*/"9.0");
+    await mint(user1, /*leverage*/2.0, /*deposit*/1.0, /*worstRate*/"9.0", /*recipient*/user2);
+    await mint(user1, /*leverage*/0, /*deposit*/1.0, /*worstRate*/"10.3");
+    await burn(user1, /*tokenId*/1, /*yieldsRate*/"0.1", /*maxSlippage*/0.03);
+
+    expect(await wrapper.tokensOf(user1)).to.eql([3]);
+    expect(await wrapper.tokensOf(user2.address.toLowerCase())).to.eql([2]);
+    expect(await wrapper.tokensOf(user3)).to.eql([]);
+    expect(await wrapper.balanceOf(user1)).to.equal(1);
+  });
+
   it("verifies passing address zero Tempus Controller in the constructor reverts", async () => {
     (await expectRevert(ContractBase.deployContract("PositionManager", constants.AddressZero, "Tempus Positions", "POSITION"))).to.equal(":InvalidTempusController");
   });
@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { evmSetAutomine, setEvmTime } from "@tempus-labs/utils/ts/utils/Utils";
+import { TempusPool } from "@tempus-sdk/tempus/TempusPool";
+import { TempusMarket } from "@tempus-sdk/tempus/TempusMarket";
+import { TempusController } from "@tempus-sdk/tempus/TempusController";
+import { Stats } from "@tempus-sdk/tempus/Stats";
+import { RolloverReport, RolloverStrategy, findRolloverTarget, rollover } from "@tempus-sdk/tempus/Rollover";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
+
+describeForEachPool("Rollover", (testPool:PoolTestFixture) =>
+{
+  let owner:Signer, user1:Signer, user2:Signer;
+  let pool:TempusPool;
+  let controller:TempusController;
+  let successor:TempusMarket;
+
+  // new pool of the same YBT, with an AMM seeded by user2
+  async function deploySuccessor(maturityTime:number): Promise<TempusMarket>
+  {
+    const market = await testPool.deployAnotherMarket(maturityTime);
+    await controller.depositYieldBearing(user2, market.tempus, 1000, user2);
+    await market.amm.provideLiquidity(user2, 100, 1000);
+    return market;
+  }
+
+  beforeEach(async () =>
+  {
+    pool = await testPool.createDefault();
+    [owner, user1, user2] = testPool.signers;
+    controller = testPool.controller;
+    await testPool.setupAccounts(owner, [[user1,/*ybt*/1000],[user2,/*ybt*/10000]]);
+
+    await controller.depositYieldBearing(user2, pool, 1000, user2);
+    await testPool.amm.provideLiquidity(user2, 100, 1000);
+    successor = await deploySuccessor(testPool.maturityTime + 60*60);
+  });
+
+  it("Finds the earliest active pool of the same YBT", async () =>
+  {
+    const later = await deploySuccessor(testPool.maturityTime + 2*60*60);
+    await testPool.fastForwardToMaturity();
+
+    const target = await findRolloverTarget(pool, [later, testPool, successor]);
+    expect(target.tempus.address).to.equal(successor.tempus.address);
+
+    await setEvmTime(Number(await successor.tempus.maturityTime()) + 1);
+    expect((await findRolloverTarget(pool, [later, testPool, successor])).tempus.address).to.equal(later.tempus.address);
+    const error = await findRolloverTarget(pool, [testPool, successor]).catch(e => e);
+    expect(error.message).to.contain("No active TempusPool");
+  });
+
+  it("Finalizes, exits LP and redeems into the successor pool", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+    await controller.depositAndProvideLiquidity(testPool, user1, 100, /*isBackingToken*/false);
+    await setEvmTime(testPool.maturityTime + 1);
+    const ybtBefore = +await testPool.ybt.balanceOf(user1);
+
+    const report = await rollover(controller, user1, testPool, successor);
+    expect(report.finalized).to.be.true;
+    expect(await pool.matured()).to.be.true;
+    expect(+report.redeemedLpTokens).to.be.greaterThan(0);
+    expect(+report.redeemedPrincipals).to.be.greaterThan(0);
+    expect(+report.yieldBearingAmount).to.be.greaterThan(190);
+    expect(report.transactions.length).to.equal(3);
+
+    expect(+await testPool.amm.balanceOf(user1)).to.equal(0);
+    expect(+await pool.principalShare.balanceOf(user1)).to.equal(0);
+    expect(+await pool.yieldShare.balanceOf(user1)).to.equal(0);
+    expect(+await testPool.ybt.balanceOf(user1)).to.be.closeTo(ybtBefore, 0.000001, "redeemed YBT is deposited");
+
+    const minted = await successor.tempus.principalShare.balanceOf(user1);
+    expect(report.principalsReceived.toString()).to.equal(minted.toString());
+    expect(report.yieldsReceived.toString()).to.equal(minted.toString());
+    expect(+report.lpTokensReceived).to.equal(0);
+  });
+
+  it("Waits for every step on a network without automine", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+    await controller.depositAndProvideLiquidity(testPool, user1, 100, /*isBackingToken*/false);
+    await setEvmTime(testPool.maturityTime + 1);
+
+    // blocks are only mined every 100ms, like on a live network
+    await network.provider.send("evm_setIntervalMining", [100]);
+    await evmSetAutomine(false);
+    let report:RolloverReport;
+    try {
+      report = await rollover(controller, user1, testPool, successor);
+    }
+    finally {
+      // in case rollover fails, we must enable automining so that other tests are not affected
+      await evmSetAutomine(true);
+      await network.provider.send("evm_setIntervalMining", [0]);
+    }
+
+    expect(+report.yieldBearingAmount).to.be.greaterThan(190, "redeemed YBT is measured after the exit is mined");
+    const minted = await successor.tempus.principalShare.balanceOf(user1);
+    expect(+minted).to.be.greaterThan(0);
+    expect(report.principalsReceived.toString()).to.equal(minted.toString());
+  });
+
+  it("Fixes the rolled over deposit", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+    await testPool.fastForwardToMaturity();
+
+    const report = await rollover(controller, user1, testPool, successor, {
+      strategy: RolloverStrategy.Fix, stats: await Stats.create()
+    });
+    expect(report.finalized).to.be.false;
+    expect(+report.redeemedLpTokens).to.equal(0);
+    expect(report.transactions.length).to.equal(2);
+    expect(+report.principalsReceived).to.be.greaterThan(+report.yieldBearingAmount, "TYS are swapped for TPS at rate 1.0");
+    expect(+report.yieldsReceived).to.equal(0);
+  });
+
+  it("Provides liquidity with the rolled over deposit", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+    await testPool.fastForwardToMaturity();
+
+    const report = await rollover(controller, user1, testPool, successor, { strategy: RolloverStrategy.ProvideLiquidity });
+    expect(+report.lpTokensReceived).to.be.greaterThan(0);
+    expect(report.lpTokensReceived.toString()).to.equal((await successor.amm.balanceOf(user1)).toString());
+  });
+
+  it("Rejects pools which have not matured or nothing to roll over", async () =>
+  {
+    const rolloverError = (user:Signer, from:TempusMarket, to:TempusMarket, options = {}) =>
+      rollover(controller, user, from, to, options).catch(e => e.message);
+
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+    expect(await rolloverError(user1, testPool, successor)).to.contain("has not matured yet");
+    expect(await rolloverError(user1, testPool, successor, { strategy: RolloverStrategy.Leverage, stats: await Stats.create() }))
+      .to.contain("requires leverageMultiplier");
+
+    await testPool.fastForwardToMaturity();
+    expect(await rolloverError(user2, successor, testPool)).to.contain("has not matured yet");
+    expect(await rolloverError(owner, testPool, successor)).to.contain("Nothing to roll over");
+  });
+});
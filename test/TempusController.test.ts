@@ -4,8 +4,10 @@ import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
 import { PoolType, TempusPool } from "@tempus-sdk/tempus/TempusPool";
 import { TempusController } from "@tempus-sdk/tempus/TempusController";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { hardhatLoader } from "@tempus-sdk/testing/HardhatLoader";
 import { TempusPoolAMM } from "@tempus-sdk/tempus/TempusPoolAMM";
+import { Stats } from "@tempus-sdk/tempus/Stats";
 import { Decimal } from "@tempus-labs/utils/ts/utils/Decimal";
 import { Numberish } from "@tempus-labs/utils/ts/utils/DecimalUtils";
 
@@ -79,6 +81,91 @@ describeForEachPool("TempusController", (testPool:PoolTestFixture) =>
     });
   });
   
+  describe("event history", () =>
+  {
+    it("getDeposits returns Deposited events filtered by user", async () =>
+    {
+      await controller.depositYieldBearing(user1, pool, 100, user2);
+      await controller.depositYieldBearing(user2, pool, 50, user2);
+
+      const deposits = await controller.getDeposits({ pool: pool, user: user1 });
+      expect(deposits.length).to.equal(1);
+      expect(deposits[0].pool).to.equal(pool);
+      expect(deposits[0].depositor).to.equal(addressOf(user1));
+      expect(deposits[0].recipient).to.equal(addressOf(user2));
+      expect(deposits[0].yieldTokenAmount.toNumber()).to.equal(100);
+      expect(deposits[0].fee.toNumber()).to.equal(0);
+
+      const allDeposits = await controller.getDeposits({ pool: pool, blockRange: 1 });
+      expect(allDeposits.length).to.equal(2, "paginated query must find all deposits");
+    });
+
+    it("Event queries start at the deployment block", async () =>
+    {
+      const deploymentBlock = await controller.deploymentBlock();
+      expect(deploymentBlock).to.be.greaterThan(0);
+      expect(await controller.contract.provider.getCode(controller.address, deploymentBlock - 1)).to.equal("0x");
+
+      const attached = await TempusController.attach(controller.address, hardhatLoader);
+      expect(await attached.deploymentBlock()).to.equal(deploymentBlock, "attached controller finds the block by its code");
+
+      const known = await TempusController.attach(controller.address, hardhatLoader, /*deploymentBlock*/1);
+      expect(await known.deploymentBlock()).to.equal(1, "a known deployment block is not searched");
+    });
+
+    it("getRedemptions returns Redeemed events", async () =>
+    {
+      await controller.depositYieldBearing(user1, pool, 100, user1);
+      await controller.redeemToYieldBearing(user1, pool, 20, 20, user2);
+
+      const redemptions = await controller.getRedemptions({ pool: pool, recipient: user2 });
+      expect(redemptions.length).to.equal(1);
+      expect(redemptions[0].redeemer).to.equal(addressOf(user1));
+      expect(redemptions[0].principalShareAmount.toNumber()).to.equal(20);
+      expect(redemptions[0].yieldShareAmount.toNumber()).to.equal(20);
+      expect(redemptions[0].isEarlyRedeem).to.be.true;
+    });
+  });
+
+  describe("unsigned transactions", () =>
+  {
+    it("populateDepositYieldBearing returns approval and deposit", async () =>
+    {
+      const txs = await controller.populateDepositYieldBearing(user2, pool, 100, user2);
+      expect(txs.length).to.equal(2);
+      expect(txs[0].to).to.equal(pool.yieldBearing.address, "approval first");
+      expect(txs[1].to).to.equal(controller.address);
+      expect(txs.every(tx => tx.from === addressOf(user2))).to.be.true;
+
+      for (const tx of txs) {
+        await user2.sendTransaction(tx);
+      }
+      expect(+await pool.principalShare.balanceOf(user2)).to.be.greaterThan(0, "deposit executed");
+    });
+
+    it("populateDepositBacking sends Ether value for Lido", async () =>
+    {
+      const txs = await controller.populateDepositBacking(user2, pool, 10);
+      const deposit = txs[txs.length - 1];
+      expect(deposit.to).to.equal(controller.address);
+      expect(+(deposit.value ?? 0)).to.equal(testPool.type == PoolType.Lido ? +pool.asset.toBigNum(10) : 0);
+      if (testPool.type == PoolType.Lido) {
+        expect(txs.length).to.equal(1, "Ether deposits need no approval");
+      }
+    });
+
+    it("approval is skipped when the existing allowance suffices", async () =>
+    {
+      await pool.yieldBearing.approve(user2, controller.address, 100);
+      const txs = await controller.populateDepositYieldBearing(user2, pool, 100, user2);
+      expect(txs.length).to.equal(1);
+      expect(txs[0].to).to.equal(controller.address);
+
+      const moreTxs = await controller.populateDepositYieldBearing(user2, pool, 101, user2);
+      expect(moreTxs.length).to.equal(2, "allowance of 100 does not cover 101");
+    });
+  });
+
   describe("depositAndProvideLiquidity", () =>
   {
     it("unauthorized contracts are not allowed", async () =>
@@ -184,6 +271,25 @@ describeForEachPool("TempusController", (testPool:PoolTestFixture) =>
       expect(+await pool.principalShare.balanceOf(user2)).to.be.greaterThan(0, "Some Principals should be returned to user");
       expect(+await pool.yieldShare.balanceOf(user2)).to.be.equal(0, "ALL Yields should be deposited to AMM");
     });
+
+    it("depositAndFixWithSlippage derives minimum TYS rate from the estimate", async () =>
+    {
+      await initAMM(user1, /*ybtDeposit*/2000, /*principals*/200, /*yields*/2000); // 10% rate
+      const stats = await Stats.create();
+      const { quote } = await controller.depositAndFixWithSlippage(stats, testPool, user2, 5.456789, false, /*bps*/50);
+      await expectValidState();
+
+      expect(+quote.tysRate).to.be.within(0.097, 0.1, "10% rate minus fee and slippage");
+      expect(+quote.minTYSRate).to.be.closeTo(+quote.tysRate * 0.995, 1e-6);
+      expect(+await pool.principalShare.balanceOf(user2)).to.be.closeTo(+quote.principals, +quote.principals * 0.001);
+    });
+
+    it("depositAndFixWithSlippage rejects invalid slippage", async () =>
+    {
+      const stats = await Stats.create();
+      const error = await controller.depositAndFixWithSlippage(stats, testPool, user2, 1, false, /*bps*/10000).catch(e => e);
+      expect(error.message).to.contain("slippageBps");
+    });
   });
 
   describe("depositAndLeverage", () =>
@@ -226,6 +332,18 @@ describeForEachPool("TempusController", (testPool:PoolTestFixture) =>
       expect(+await pool.principalShare.balanceOf(user2)).to.be.lessThan(5.456789, "Some Principals are swapped");
       expect(+await pool.yieldShare.balanceOf(user2)).to.be.greaterThan(10, "Yields are leveraged");
     });
+
+    it("depositAndLeverageWithSlippage derives minimum Capitals rate from the estimate", async () =>
+    {
+      await initAMM(user1, /*ybtDeposit*/2000, /*principals*/200, /*yields*/2000); // 10% rate
+      const stats = await Stats.create();
+      const { quote } = await controller.depositAndLeverageWithSlippage(stats, testPool, user2, 5.456789, false, 2, /*bps*/100);
+      await expectValidState();
+
+      expect(+quote.minCapitalsRate).to.be.closeTo(+quote.capitalsRate * 0.99, 1e-6);
+      expect(+quote.minCapitalsRate).to.be.greaterThan(9.5, "~10 TYS per TPS minus fee and slippage");
+      expect(+await pool.yieldShare.balanceOf(user2)).to.be.closeTo(+quote.yields, 1e-6);
+    });
   });
 
   describe("Exit AMM", () =>
@@ -642,6 +760,6 @@ describeForEachPool("TempusController", (testPool:PoolTestFixture) =>
     const pricePerYield = await testPool.yields.getPricePerFullShareStored();
     const pricePerPrincipal = await testPool.principals.getPricePerFullShareStored();
     
-    return testPool.yields.toDecimal(pricePerYield).div(pricePerPrincipal).toString();
+    return pricePerYield.div(pricePerPrincipal).toString();
   }
 });
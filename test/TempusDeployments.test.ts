@@ -0,0 +1,89 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { expect } from "chai";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { hardhatLoader } from "@tempus-sdk/testing/HardhatLoader";
+import { TempusPool } from "@tempus-sdk/tempus/TempusPool";
+import { DeploymentKind, TempusDeployments, classifyDeployment, readDeployments } from "@tempus-sdk/tempus/TempusDeployments";
+import { describeForEachPool, describeNonPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
+
+describeNonPool("TempusDeployments", () =>
+{
+  it("Classifies the labels written by the deploy scripts", () =>
+  {
+    expect(classifyDeployment("TempusController")).to.equal(DeploymentKind.Controller);
+    expect(classifyDeployment("Stats")).to.equal(DeploymentKind.Stats);
+    expect(classifyDeployment("TempusPool_Lido staked ETH_maturity1638190800")).to.equal(DeploymentKind.Pool);
+    expect(classifyDeployment("TempusAMM_Lido staked ETH_maturity_1638190800")).to.equal(DeploymentKind.AMM);
+    expect(classifyDeployment("aToken_Dai")).to.equal(DeploymentKind.Other);
+    expect(classifyDeployment("StatsV2")).to.equal(DeploymentKind.Other);
+  });
+
+  it("Reads a network's deployments folder", () =>
+  {
+    const entries = readDeployments("goerli");
+    expect(entries.filter(e => e.kind === DeploymentKind.Pool).length).to.equal(2);
+    expect(entries.filter(e => e.kind === DeploymentKind.AMM).length).to.equal(2);
+    expect(entries.find(e => e.label === "StETH").kind).to.equal(DeploymentKind.Other);
+    expect(() => readDeployments("unknown")).to.throw("No deployments of network unknown");
+  });
+});
+
+describeForEachPool("TempusDeployments", (testPool:PoolTestFixture) =>
+{
+  let pool:TempusPool;
+  let deploymentsDir:string;
+
+  function writeDeployment(label:string, address:string, blockNumber?:number): void
+  {
+    const receipt = (blockNumber !== undefined) ? { receipt: { blockNumber: blockNumber } } : {};
+    writeFileSync(join(deploymentsDir, "test", label + ".json"), JSON.stringify({ address: address, abi: [], ...receipt }));
+  }
+
+  beforeEach(async () =>
+  {
+    pool = await testPool.createDefault();
+    deploymentsDir = mkdtempSync(join(tmpdir(), "deployments-"));
+    mkdirSync(join(deploymentsDir, "test"));
+  });
+
+  afterEach(() =>
+  {
+    rmSync(deploymentsDir, { recursive: true, force: true });
+  });
+
+  it("Pairs each pool with the AMM trading its shares", async () =>
+  {
+    writeDeployment("TempusPool_" + testPool.type, pool.address);
+    writeDeployment("TempusAMM_" + testPool.type, testPool.amm.address);
+    writeDeployment("YieldToken", pool.yieldBearing.address);
+
+    const deployments = await TempusDeployments.attach("test", hardhatLoader, deploymentsDir);
+    expect(deployments.markets.length).to.equal(1);
+    expect(deployments.unpairedPools.length).to.equal(0);
+    expect(deployments.unpairedAMMs.length).to.equal(0);
+    expect(deployments.controller.address).to.equal(testPool.controller.address);
+    expect(deployments.stats).to.be.undefined;
+
+    const market = deployments.market("TempusAMM_" + testPool.type);
+    expect(market.tempus.address).to.equal(pool.address);
+    expect(market.amm.address).to.equal(testPool.amm.address);
+    expect(market.amm.principalShare.address).to.equal(pool.principalShare.address);
+    expect(deployments.market(pool.address)).to.equal(market);
+    expect(deployments.address("YieldToken")).to.equal(pool.yieldBearing.address);
+  });
+
+  it("Reports pools without an AMM", async () =>
+  {
+    writeDeployment("TempusPool_" + testPool.type, pool.address);
+    writeDeployment("TempusController", testPool.controller.address, /*blockNumber*/1);
+
+    const deployments = await TempusDeployments.attach("test", hardhatLoader, deploymentsDir);
+    expect(deployments.entry("TempusController").blockNumber).to.equal(1);
+    expect(await deployments.controller.deploymentBlock()).to.equal(1, "deployment block is read from the receipt");
+    expect(deployments.markets.length).to.equal(0);
+    expect(deployments.pools.map(p => p.address)).to.deep.equal([pool.address]);
+    expect(() => deployments.market(pool.address)).to.throw("No TempusPool with a TempusAMM");
+  });
+});
@@ -1,8 +1,12 @@
 import { utils } from "ethers";
+import { ethers } from "hardhat";
 import { expect } from "chai";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { hardhatLoader } from "@tempus-sdk/testing/HardhatLoader";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 import { TempusPool } from "@tempus-sdk/tempus/TempusPool";
+import { TempusPoolAMM } from "@tempus-sdk/tempus/TempusPoolAMM";
+import { LegacyPoolShare, LegacyTempusPool } from "@tempus-sdk/tempus/LegacyReturnTypes";
 import { expectRevert, blockTimestamp } from "@tempus-labs/utils/ts/utils/Utils";
 
 describeForEachPool("TempusPool Deploy", (testPool:PoolTestFixture) =>
@@ -20,24 +24,61 @@ describeForEachPool("TempusPool Deploy", (testPool:PoolTestFixture) =>
     expect(protocol).to.equal(testPool.type);
   });
 
+  it("Attach detects pool type and tokens of a deployed pool", async () =>
+  {
+    const attached = await TempusPool.attach(pool.address, undefined, hardhatLoader);
+    expect(attached.type).to.equal(testPool.type);
+    expect(attached.exchangeRatePrec).to.equal(pool.exchangeRatePrec);
+    expect(attached.controller.address).to.equal(pool.controller.address);
+    expect(attached.yieldBearing.address).to.equal(pool.yieldBearing.address);
+    expect(attached.yieldBearing.decimals).to.equal(pool.yieldBearing.decimals);
+    expect(attached.asset.decimals).to.equal(pool.asset.decimals);
+    expect(attached.principalShare.address).to.equal(pool.principalShare.address);
+    expect(attached.yieldShare.address).to.equal(pool.yieldShare.address);
+    expect((await attached.currentInterestRate()).toString()).to.equal((await pool.currentInterestRate()).toString());
+  });
+
+  it("Connect uses the bundled ABIs with a plain ethers provider", async () =>
+  {
+    const provider = ethers.provider;
+    const connected = await TempusPool.connect(pool.address, provider);
+    expect(connected.type).to.equal(testPool.type);
+    expect(connected.controller.address).to.equal(pool.controller.address);
+    expect(connected.principalShare.address).to.equal(pool.principalShare.address);
+    expect((await connected.currentInterestRate()).toString()).to.equal((await pool.currentInterestRate()).toString());
+
+    const amm = await TempusPoolAMM.connect(testPool.amm.address, connected, provider);
+    expect(+await amm.totalSupply()).to.equal(+await testPool.amm.totalSupply());
+  });
+
   it("Start and maturity time", async () =>
   {
-    expect(await pool.startTime()).to.lte(await blockTimestamp());
-    expect(await pool.maturityTime()).to.equal(testPool.maturityTime);
+    expect(Number(await pool.startTime())).to.lte(await blockTimestamp());
+    expect(Number(await pool.maturityTime())).to.equal(testPool.maturityTime);
   });
 
   it("Maturity and halting should not be set", async () =>
   {
     expect(await pool.matured()).to.equal(false);
     expect(await pool.exceptionalHaltTime()).to.equal(null); // Didn't occur yet.
-    expect(await pool.maximumNegativeYieldDuration()).to.equal(7 * 24 * 60 * 60);
+    expect(Number(await pool.maximumNegativeYieldDuration())).to.equal(7 * 24 * 60 * 60);
   });
 
   it("Interest Rates should be set", async () =>
   {
-    expect(await pool.initialInterestRate()).to.equal(1.0);
-    expect(await pool.currentInterestRate()).to.equal(1.0);
-    expect(await pool.maturityInterestRate()).to.equal(0.0);
+    expect(+await pool.initialInterestRate()).to.equal(1.0);
+    expect(+await pool.currentInterestRate()).to.equal(1.0);
+    expect(+await pool.maturityInterestRate()).to.equal(0.0);
+  });
+
+  it("Legacy shim keeps the former numeric return types", async () =>
+  {
+    const legacy = new LegacyTempusPool(pool);
+    expect(await legacy.maturityTime()).to.equal(testPool.maturityTime);
+    expect(await legacy.initialInterestRate()).to.equal(1.0);
+    expect(await legacy.getSharesAmountForExactTokensOut(10, /*BT*/false)).to.equal(10);
+    expect(await new LegacyPoolShare(pool.principalShare).getPricePerFullShareStored())
+      .to.equal(+await pool.principalShare.getPricePerFullShareStored());
   });
 
   it("Check matured after maturity", async () =>
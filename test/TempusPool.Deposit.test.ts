@@ -1,5 +1,5 @@
 import { expect } from "chai";
-import { BalancesExpectation, PoolTestFixture, WalletExpectation, YBTDepositExpectation } from "@tempus-sdk/tempus/PoolTestFixture";
+import { BalancesExpectation, PoolTestFixture, WalletExpectation, YBTDepositExpectation } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
 
@@ -35,6 +35,30 @@ describeForEachPool("TempusPool Deposit", (pool:PoolTestFixture) =>
     );
   });
 
+  it.includeIntegration("Snapshot should read pool state at the given block", async () =>
+  {
+    await pool.createDefault();
+    const [owner, user] = pool.signers;
+    await pool.setupAccounts(owner, [[user, 100]]);
+    const blockBeforeDeposit = await pool.tempus.contract.provider.getBlockNumber();
+    await pool.depositYBT(user, 100);
+
+    const before = await pool.tempus.snapshot(blockBeforeDeposit);
+    expect(before.blockNumber).to.equal(blockBeforeDeposit);
+    expect(before.principalShareSupply.toNumber()).to.equal(0);
+    expect(before.contractBalance.toNumber()).to.equal(0);
+
+    const after = await pool.tempus.snapshot();
+    expect(after.blockNumber).to.be.greaterThan(blockBeforeDeposit);
+    expect(after.principalShareSupply.toNumber()).to.equal(100);
+    expect(after.yieldShareSupply.toNumber()).to.equal(100);
+    expect(after.contractBalance.toNumber()).to.equal(100);
+    expect(after.currentInterestRate.toNumber()).to.equal(1.0);
+    expect(after.maturityTime).to.equal(await pool.tempus.maturityTime());
+    expect(after.exceptionalHaltTime).to.be.null;
+    expect(after.matured).to.be.false;
+  });
+
   it.includeIntegration("Should revert on depositing 0 YBT", async () =>
   {
     await pool.createDefault();
@@ -108,8 +132,8 @@ describeForEachPool("TempusPool Deposit", (pool:PoolTestFixture) =>
     await check(user, { pegged:{tps:100, tys:100, ybt:200}, unpegged:{tps:100, tys:100, ybt:100} }, "YBT increase 2x after rate 2x");
     await deposit(user, { ybtAmount:100, pegged:{tps:150, tys:150, ybt:100}, unpegged:{tps:200, tys:200, ybt:0} }, "deposit: YBT reduce by 100");
 
-    expect(await pool.tempus.initialInterestRate()).to.equal(1.0);
-    expect(await pool.tempus.currentInterestRate()).to.equal(2.0);
+    expect(+await pool.tempus.initialInterestRate()).to.equal(1.0);
+    expect(+await pool.tempus.currentInterestRate()).to.equal(2.0);
   });
 
   it.includeIntegration("Should allow depositing with different recipient", async () =>
@@ -172,8 +196,8 @@ describeForEachPool("TempusPool Deposit", (pool:PoolTestFixture) =>
     await check(user,  { pegged:{tps:150, tys:150, ybt:700}, unpegged:{tps:200, tys:200, ybt:300} }, "user1 YBT after rate 2x");
     await check(user2, { pegged:{tps:200, tys:200, ybt:600}, unpegged:{tps:200, tys:200, ybt:300} }, "user2 YBT after rate 2x");
 
-    expect(await pool.tempus.initialInterestRate()).to.equal(1.0);
-    expect(await pool.tempus.currentInterestRate()).to.equal(2.0);
+    expect(+await pool.tempus.initialInterestRate()).to.equal(1.0);
+    expect(+await pool.tempus.currentInterestRate()).to.equal(2.0);
   });
 
 });
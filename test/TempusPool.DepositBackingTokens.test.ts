@@ -1,5 +1,5 @@
 import { expect } from "chai";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
 
@@ -96,8 +96,8 @@ describeForEachPool("TempusPool DepositBackingTokens", (pool:PoolTestFixture) =>
     (await pool.expectDepositBT(user, 100)).to.equal('success');
     (await pool.userState(user)).expect(150, 150, /*yieldBearing:*/expectedYBTBalance);
 
-    expect(await pool.tempus.initialInterestRate()).to.equal(1.0);
-    expect(await pool.tempus.currentInterestRate()).to.equal(2.0);
+    expect(+await pool.tempus.initialInterestRate()).to.equal(1.0);
+    expect(+await pool.tempus.currentInterestRate()).to.equal(2.0);
   });
 
   it.includeIntegration("Should revert when trying to deposit BT directly into the TempusPool (not via the TempusController)", async () => 
@@ -1,9 +1,10 @@
 import { expect } from "chai";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 
 import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
+import { InvalidArgumentError, decodeTempusError } from "@tempus-sdk/tempus/TempusErrors";
 
 describeForEachPool("TempusPool Fees", (pool:PoolTestFixture) =>
 {
@@ -48,6 +49,17 @@ describeForEachPool("TempusPool Fees", (pool:PoolTestFixture) =>
     (await expectRevert(pool.tempus.setFeesConfig(owner, { depositPercent: 0.0, earlyRedeemPercent: 0.0, matureRedeemPercent: 0.6 }))).to.be.equal(":FeePercentageTooBig");
   });
 
+  it("Fee configuration revert should decode into InvalidArgumentError", async () =>
+  {
+    const error = await pool.tempus.setFeesConfig(owner, { depositPercent: 0.6, earlyRedeemPercent: 0.0, matureRedeemPercent: 0.0 })
+      .catch(e => decodeTempusError(e, { pool: pool.tempus }));
+    expect(error).to.be.instanceOf(InvalidArgumentError);
+    expect(error.errorName).to.equal("FeePercentageTooBig");
+    expect(error.args.actionType).to.equal("deposit");
+    expect(error.args.feePercent.toNumber()).to.equal(0.6);
+    expect(error.args.maximumFeePercent.toNumber()).to.equal(0.5);
+  });
+
   it("Should collect tokens as fees during deposit() if fees != 0", async () =>
   {
     await pool.setupAccounts(owner, [[user, 500]]);
@@ -1,6 +1,6 @@
 
 import { expect } from "chai";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 
 describeForEachPool("TempusPool InterestRate", (pool:PoolTestFixture) =>
@@ -9,31 +9,43 @@ describeForEachPool("TempusPool InterestRate", (pool:PoolTestFixture) =>
   {
     await pool.createDefault();
     let interestRate = await pool.tempus.currentInterestRate();
-    let numAssetTokens = await pool.tempus.numAssetsPerYieldToken(2, interestRate);
-    let numYieldTokens = await pool.tempus.numYieldTokensPerAsset(3, interestRate);
-    expect(interestRate).to.equal(1.0);
-    expect(numAssetTokens).to.equal(2);
-    expect(numYieldTokens).to.equal(3);
+    let numAssetTokens = await pool.tempus.numAssetsPerYieldToken(2, interestRate.toString());
+    let numYieldTokens = await pool.tempus.numYieldTokensPerAsset(3, interestRate.toString());
+    expect(+interestRate).to.equal(1.0);
+    expect(+numAssetTokens).to.equal(2);
+    expect(+numYieldTokens).to.equal(3);
   });
 
   it("Should give correct Interest Rate and token amounts with Rate=2.0", async () =>
   {
     await pool.create({ initialRate:2.0, poolDuration:60*60, yieldEst:0.1 });
     let interestRate = await pool.tempus.currentInterestRate();
-    let numAssetTokens = await pool.tempus.numAssetsPerYieldToken(2, interestRate);
-    let numYieldTokens = await pool.tempus.numYieldTokensPerAsset(2, interestRate);
-    expect(interestRate).to.equal(2.0);
+    let numAssetTokens = await pool.tempus.numAssetsPerYieldToken(2, interestRate.toString());
+    let numYieldTokens = await pool.tempus.numYieldTokensPerAsset(2, interestRate.toString());
+    expect(+interestRate).to.equal(2.0);
 
     if (pool.yieldPeggedToAsset)
     {
-      expect(numAssetTokens).to.equal(2);
-      expect(numYieldTokens).to.equal(2);
-      expect(numAssetTokens).to.equal(numYieldTokens, "yield must be pegged to asset");
+      expect(+numAssetTokens).to.equal(2);
+      expect(+numYieldTokens).to.equal(2);
+      expect(+numAssetTokens).to.equal(+numYieldTokens, "yield must be pegged to asset");
     }
     else
     {
-      expect(numAssetTokens).to.equal(4);
-      expect(numYieldTokens).to.equal(1);
+      expect(+numAssetTokens).to.equal(4);
+      expect(+numYieldTokens).to.equal(1);
     }
   });
+
+  it("Should read historical Interest Rate at a past block", async () =>
+  {
+    await pool.createDefault();
+    const blockAtRate1 = await pool.tempus.contract.provider.getBlockNumber();
+
+    await pool.setInterestRate(1.5);
+    await pool.tempus.updateInterestRate();
+
+    expect(+await pool.tempus.currentInterestRate()).to.equal(1.5);
+    expect(+await pool.tempus.currentInterestRate(blockAtRate1)).to.equal(1.0);
+  });
 });
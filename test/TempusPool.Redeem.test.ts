@@ -1,7 +1,8 @@
 import { expect } from "chai";
-import { PoolTestFixture, YBTDepositExpectation, RedeemExpectation } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture, YBTDepositExpectation, RedeemExpectation } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
+import { UnauthorizedError, decodeTempusError } from "@tempus-sdk/tempus/TempusErrors";
 
 describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
 {
@@ -288,8 +289,8 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
     await deposit(user, { ybtAmount:100, pegged:{tps:100, tys:100, ybt:400}, unpegged:{tps:100, tys:100, ybt:400} }, "deposit 100 with rate 1");
 
     await pool.setInterestRate(2.0);
-    expect(await pool.tempus.initialInterestRate()).to.equal(1.0);
-    expect(await pool.tempus.currentInterestRate()).to.equal(2.0);
+    expect(+await pool.tempus.initialInterestRate()).to.equal(1.0);
+    expect(+await pool.tempus.currentInterestRate()).to.equal(2.0);
 
     await pool.checkWallet(user, { pegged:{tps:100, tys:100, ybt:800}, unpegged:{tps:100, tys:100, ybt:400}}, "setting rate to 2");
     await deposit(user, { ybtAmount:100, pegged:{tps:150, tys:150, ybt:700}, unpegged:{tps:200, tys:200, ybt:300} },  "deposit user1 100 with rate 2");
@@ -298,9 +299,9 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
 
     await pool.setInterestRate(2.5);
     await pool.fastForwardToMaturity();
-    expect(await pool.tempus.initialInterestRate()).to.equal(1.0);
-    expect(await pool.tempus.currentInterestRate()).to.equal(2.5);
-    expect(await pool.tempus.maturityInterestRate()).to.equal(2.5);
+    expect(+await pool.tempus.initialInterestRate()).to.equal(1.0);
+    expect(+await pool.tempus.currentInterestRate()).to.equal(2.5);
+    expect(+await pool.tempus.maturityInterestRate()).to.equal(2.5);
 
     // First user redeems
     await pool.checkWallet(user, { pegged:{tps:150, tys:150, ybt:875}, unpegged:{tps:200, tys:200, ybt:300}}, "user1 pre-redeem");
@@ -328,4 +329,15 @@ describeForEachPool("TempusPool Redeem", (pool:PoolTestFixture) =>
     (await expectRevert(pool.tempus.redeem(user, 1, 1))).to.equal(":OnlyControllerAuthorized");
   });
 
+  it.includeIntegration("Redeem directly on TempusPool should decode into UnauthorizedError", async () => 
+  {
+    await pool.createDefault();
+    let [owner, user] = pool.signers;
+    await pool.setupAccounts(owner, [[user, 500]]);
+    
+    const error = await pool.tempus.redeem(user, 1, 1).catch(e => decodeTempusError(e, { pool: pool.tempus }));
+    expect(error).to.be.instanceOf(UnauthorizedError);
+    expect(error.errorName).to.equal("OnlyControllerAuthorized");
+  });
+
 });
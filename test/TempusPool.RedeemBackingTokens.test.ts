@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import { PoolType } from "@tempus-sdk/tempus/TempusPool";
-import { PoolTestFixture, BTDepositExpectation, RedeemExpectation, WalletExpectation } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture, BTDepositExpectation, RedeemExpectation, WalletExpectation } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
 
@@ -1,7 +1,8 @@
 import { expect } from "chai";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "./pool-utils/MultiPoolTestSuite";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
+import { sharePriceParamsOf } from "@tempus-sdk/tempus/SharePricing";
 
 describeForEachPool("TempusPool YieldShare", (pool:PoolTestFixture) =>
 {
@@ -13,20 +14,20 @@ describeForEachPool("TempusPool YieldShare", (pool:PoolTestFixture) =>
 
   it("Get shares amount for exact amountOut", async () =>
   {
-    expect(await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/false)).to.equal(10, "1x shares YBT with rate 1.0");
-    expect(await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/true )).to.equal(10, "1x shares BT with rate 1.0");
+    expect(+await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/false)).to.equal(10, "1x shares YBT with rate 1.0");
+    expect(+await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/true )).to.equal(10, "1x shares BT with rate 1.0");
 
     if (pool.yieldPeggedToAsset)
     {
       await pool.setInterestRate(2.0);
-      expect(await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/false)).to.equal(5, "0.5x shares YBT with rate 2.0");
-      expect(await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/true )).to.equal(5, "0.5x shares BT with rate 2.0");
+      expect(+await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/false)).to.equal(5, "0.5x shares YBT with rate 2.0");
+      expect(+await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/true )).to.equal(5, "0.5x shares BT with rate 2.0");
     }
     else
     {
       await pool.setInterestRate(2.0);
-      expect(await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/false)).to.equal(10, "1x shares YBT with rate 2.0");
-      expect(await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/true )).to.equal(5, "0.5x shares BT with rate 2.0");
+      expect(+await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/false)).to.equal(10, "1x shares YBT with rate 2.0");
+      expect(+await pool.tempus.getSharesAmountForExactTokensOut(10, /*BT*/true )).to.equal(5, "0.5x shares BT with rate 2.0");
     }
   });
 
@@ -127,4 +128,48 @@ describeForEachPool("TempusPool YieldShare", (pool:PoolTestFixture) =>
     expect(yieldsPrice).to.be.equal(0);
     expect(principalPrice + yieldsPrice).to.be.equal(principalPrice);
   });
+
+  describe("Off-chain share price model", () =>
+  {
+    async function expectModelMatchesContract(tolerance:number = 0)
+    {
+      const snapshot = await pool.tempus.snapshot();
+      const model = pool.tempus.modelSharePrices(sharePriceParamsOf(snapshot, pool.yieldEst));
+      expect(model.principal.toNumber()).to.be.closeTo(snapshot.pricePerPrincipalShare.toNumber(), tolerance, "principal price");
+      expect(model.yield.toNumber()).to.be.closeTo(snapshot.pricePerYieldShare.toNumber(), tolerance, "yield price");
+    }
+
+    it("Should match contract prices before maturity", async () =>
+    {
+      await pool.setInterestRate(1.02);
+      await pool.setTimeRelativeToPoolStart(0.3);
+      await expectModelMatchesContract(/*tolerance:*/0.0001); // call may run 1s after the snapshot block
+    });
+
+    it("Should match contract prices after maturity", async () =>
+    {
+      await pool.setInterestRate(1.5);
+      await pool.fastForwardToMaturity();
+      await expectModelMatchesContract();
+    });
+
+    it("Should match contract prices if estimated yield is negative", async () =>
+    {
+      await pool.setInterestRate(0.8);
+      await expectModelMatchesContract();
+    });
+
+    it("Should price shares for a hypothetical interest rate", async () =>
+    {
+      const snapshot = await pool.tempus.snapshot();
+      const atMaturity = pool.tempus.modelSharePrices({
+        ...sharePriceParamsOf(snapshot, pool.yieldEst),
+        interestRate: 1.2,
+        timestamp: Number(snapshot.maturityTime)
+      });
+      expect(atMaturity.matured).to.be.true;
+      expect(atMaturity.principal.toNumber()).to.equal(1.0);
+      expect(atMaturity.yield.toNumber()).to.equal(0.2);
+    });
+  });
 });
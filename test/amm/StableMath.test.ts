@@ -3,7 +3,7 @@ import { AsyncFunc } from 'mocha';
 import { Contract } from 'ethers';
 import { ContractBase } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
-import { BigNumberish, fp, num, isBigNumberish } from './Numbers';
+import { BigNumberish, fp, num, isBigNumberish } from '@tempus-sdk/tempus/amm/Numbers';
 import { Decimal } from 'decimal.js';
 import { describeNonPool } from '../pool-utils/MultiPoolTestSuite';
 import {
@@ -17,7 +17,7 @@ import {
   tokenOutFromLPIn,
   tokensOutFromLPIn,
   getTokenBalance
-} from './StableMath';
+} from '@tempus-sdk/tempus/amm/StableMath';
 
 function expectEqual(expected:BigNumberish|Decimal, actual:BigNumberish|Decimal) {
   const _actual = num(expected);
@@ -5,7 +5,9 @@ import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { TempusPool } from "@tempus-sdk/tempus/TempusPool";
 import { evmMine, evmSetAutomine, expectRevert, increaseTime, blockTimestamp } from "@tempus-labs/utils/ts/utils/Utils";
 import { describeForEachPool } from "../pool-utils/MultiPoolTestSuite";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { forwardToAmplification } from "@tempus-sdk/testing/AmmTestUtils";
+import { hardhatLoader } from "@tempus-sdk/testing/HardhatLoader";
 import { TempusPoolAMM } from "@tempus-sdk/tempus/TempusPoolAMM";
 import { PoolShare, ShareKind } from "@tempus-sdk/tempus/PoolShare";
 import { ContractBase } from "@tempus-labs/utils/ts/utils/ContractBase";
@@ -65,7 +67,7 @@ describeForEachPool("TempusAMM", (testFixture:PoolTestFixture) =>
   }
 
   async function checkSwap(owner:Signer, swapTest:SwapTestRun) {
-    await tempusAMM.forwardToAmplification(swapTest.amplification);
+    await forwardToAmplification(tempusAMM, swapTest.amplification);
 
     const tokenIn = swapTest.principalIn ? tempusPool.principalShare : tempusPool.yieldShare;
     const tokenOut = swapTest.principalIn ? tempusPool.yieldShare : tempusPool.principalShare;
@@ -142,6 +144,18 @@ describeForEachPool("TempusAMM", (testFixture:PoolTestFixture) =>
     ))).to.equal(":TokenDecimalsMismatch");
   });
 
+  it("Snapshot reads balances, amplification, LP supply and fees", async () => {
+    await createPools({yieldEst:0.1, duration:ONE_MONTH, amplifyStart:5, amplifyEnd:5, ammBalancePrincipal: 10000, ammBalanceYield: 100000});
+
+    const snapshot = await tempusAMM.snapshot();
+    expect(snapshot.principals.toNumber()).to.equal(10000);
+    expect(snapshot.yields.toNumber()).to.equal(100000);
+    expect(snapshot.lpTotalSupply.toNumber()).to.equal(+await tempusAMM.totalSupply());
+    expect(snapshot.amplification).to.equal(5);
+    expect(snapshot.isAmplificationUpdating).to.be.false;
+    expect(snapshot.swapFeePercentage.toNumber()).to.equal(SWAP_FEE_PERC);
+  });
+
   it("[getExpectedReturnGivenIn] verifies the expected amount is equivilant to actual amount returned from swapping (TYS to TPS)", async () => {
     const inputAmount = 1;
     await createPools({yieldEst:0.1, duration:ONE_MONTH, amplifyStart:5, amplifyEnd:5, ammBalancePrincipal: 10000, ammBalanceYield: 100000});
@@ -149,11 +163,12 @@ describeForEachPool("TempusAMM", (testFixture:PoolTestFixture) =>
     const expectedReturn = await tempusAMM.getExpectedReturnGivenIn(inputAmount, tempusPool.yieldShare); // TYS --> TPS
     
     await createPools({yieldEst:0.1, duration:ONE_MONTH, amplifyStart:5, amplifyEnd:5, ammBalancePrincipal: 10000, ammBalanceYield: 100000});
+    await tempusPool.yieldShare.approve(owner, tempusAMM, inputAmount); // approvals are mined before the swap, which needs automine
     await testFixture.setNextBlockTimestampRelativeToPoolStart(0.5);
     await evmSetAutomine(false);
     
     try {
-      await checkSwap(owner, {amplification: 5, swapAmountIn: inputAmount, swapAmountOut: expectedReturn, principalIn: false});
+      await checkSwap(owner, {amplification: 5, swapAmountIn: inputAmount, swapAmountOut: expectedReturn.toString(), principalIn: false});
     }
     finally {
       // in case checkSwap fails, we must enable automining so that other tests are not affected
@@ -168,10 +183,11 @@ describeForEachPool("TempusAMM", (testFixture:PoolTestFixture) =>
     const expectedReturn = await tempusAMM.getExpectedReturnGivenIn(inputAmount, tempusPool.principalShare); // TPS --> TYS
     
     await createPools({yieldEst:0.1, duration:ONE_MONTH, amplifyStart:5, amplifyEnd:5, ammBalancePrincipal: 10000, ammBalanceYield: 100000});
+    await tempusPool.principalShare.approve(owner, tempusAMM, inputAmount); // approvals are mined before the swap, which needs automine
     await testFixture.setNextBlockTimestampRelativeToPoolStart(0.5);
     await evmSetAutomine(false);
     try {
-      await checkSwap(owner, {amplification: 5, swapAmountIn: inputAmount, swapAmountOut: expectedReturn, principalIn: true});
+      await checkSwap(owner, {amplification: 5, swapAmountIn: inputAmount, swapAmountOut: expectedReturn.toString(), principalIn: true});
     }
     finally {
       // in case checkSwap fails, we must enable automining so that other tests are not affected
@@ -180,13 +196,41 @@ describeForEachPool("TempusAMM", (testFixture:PoolTestFixture) =>
   });
 
   it("[getExpectedReturnGivenIn] check tokenIn param revert", async () => {
-    const testPoolShare = await PoolShare.attach(ShareKind.Principal, ethers.constants.AddressZero, 18);
+    const testPoolShare = await PoolShare.attach(ShareKind.Principal, ethers.constants.AddressZero, 18, hardhatLoader);
     const inputAmount = 1;
     await createPools({yieldEst:0.1, duration:ONE_MONTH, amplifyStart:5, amplifyEnd:5, ammBalancePrincipal: 10000, ammBalanceYield: 100000});
     await testFixture.setTimeRelativeToPoolStart(0.5);
     const expectedReturn = tempusAMM.getExpectedReturnGivenIn(inputAmount, testPoolShare);
     (await expectRevert(expectedReturn)).to.equal(":InvalidTokenIn");
   });
+
+  it("[swapGivenIn] reverts if minimum amount out is not met", async () => {
+    await createPools({yieldEst:0.1, duration:ONE_MONTH, amplifyStart:5, amplifyEnd:5, ammBalancePrincipal: 10000, ammBalanceYield: 100000});
+    const deadline = new Date((await blockTimestamp() + ONE_HOUR) * 1000);
+    const expectedReturn = +await tempusAMM.getExpectedReturnGivenIn(1, tempusPool.yieldShare); // TYS --> TPS
+
+    const tooHighMinimum = (expectedReturn * 1.01).toFixed(6);
+    (await expectRevert(tempusAMM.swapGivenIn(owner, tempusPool.yieldShare, 1, tooHighMinimum, deadline))).to.equal(":SwapGivenTokensInSlippage");
+
+    const preSwapPrincipals = await tempusPool.principalShare.balanceOf(owner);
+    await tempusAMM.swapGivenIn(owner, tempusPool.yieldShare, 1, (expectedReturn * 0.99).toFixed(6), deadline);
+    const principalsOut = +(await tempusPool.principalShare.balanceOf(owner)).sub(preSwapPrincipals);
+    expect(principalsOut).to.be.within(expectedReturn * 0.99, expectedReturn * 1.01);
+  });
+
+  it("[swapGivenOut] spends at most the maximum amount in", async () => {
+    await createPools({yieldEst:0.1, duration:ONE_MONTH, amplifyStart:5, amplifyEnd:5, ammBalancePrincipal: 10000, ammBalanceYield: 100000});
+    const deadline = new Date((await blockTimestamp() + ONE_HOUR) * 1000);
+
+    // ~1 TPS + 2% swap fee buys 10 TYS
+    (await expectRevert(tempusAMM.swapGivenOut(owner, tempusPool.principalShare, 10, 0.5, deadline))).to.equal(":SwapGivenTokensOutSlippage");
+
+    const preSwapPrincipals = await tempusPool.principalShare.balanceOf(owner);
+    const preSwapYields = await tempusPool.yieldShare.balanceOf(owner);
+    await tempusAMM.swapGivenOut(owner, tempusPool.principalShare, 10, 2, deadline);
+    expect(+preSwapPrincipals.sub(await tempusPool.principalShare.balanceOf(owner))).to.be.within(0.5, 2);
+    expect(+(await tempusPool.yieldShare.balanceOf(owner)).sub(preSwapYields)).to.equal(10);
+  });
   
   it("[getTokensOutGivenLPIn] verifies the expected amount is equivilant to actual exit from TempusAMM", async () => {
     const inputAmount = 100;
@@ -202,8 +246,8 @@ describeForEachPool("TempusAMM", (testFixture:PoolTestFixture) =>
     await testFixture.amm.exitPoolExactLpAmountIn(owner, inputAmount);
     const balancePrincipalsAfter = +await testFixture.principals.balanceOf(owner);
     const balanceYieldsAfter = +await testFixture.yields.balanceOf(owner);
-    expect(balancePrincipalsBefore + expectedReturn.principalsOut).to.be.within(0.999999 * balancePrincipalsAfter, 1.0000001 * balancePrincipalsAfter);
-    expect(balanceYieldsBefore + expectedReturn.yieldsOut).to.be.within(0.999999 * balanceYieldsAfter, 1.0000001 * balanceYieldsAfter);
+    expect(balancePrincipalsBefore + +expectedReturn.principalsOut).to.be.within(0.999999 * balancePrincipalsAfter, 1.0000001 * balancePrincipalsAfter);
+    expect(balanceYieldsBefore + +expectedReturn.yieldsOut).to.be.within(0.999999 * balanceYieldsAfter, 1.0000001 * balanceYieldsAfter);
   });
 
   it("[getLPTokensOutForTokensIn] verifies the expected amount is equivilant to actual join to TempusAMM", async () => {
@@ -211,6 +255,9 @@ describeForEachPool("TempusAMM", (testFixture:PoolTestFixture) =>
     await testFixture.setTimeRelativeToPoolStart(0.5);
     const expectedReturn = +await testFixture.amm.getLPTokensOutForTokensIn(10, 100);
     await createPools({yieldEst:0.1, duration:ONE_MONTH, amplifyStart:5, amplifyEnd:5, ammBalancePrincipal: 10000, ammBalanceYield: 100000});
+    // approvals are mined before the join, which needs automine
+    await testFixture.principals.approve(owner, testFixture.amm, 10);
+    await testFixture.yields.approve(owner, testFixture.amm, 100);
     await testFixture.setNextBlockTimestampRelativeToPoolStart(0.5);
 
     await evmSetAutomine(false);
@@ -303,7 +350,7 @@ describeForEachPool("TempusAMM", (testFixture:PoolTestFixture) =>
     const newSwapFeePercentage = 0.04;
     await tempusAMM.setSwapFeePercentage(newSwapFeePercentage);
 
-    expect(await tempusAMM.swapFeePercentage()).to.equal(newSwapFeePercentage);
+    expect(+await tempusAMM.swapFeePercentage()).to.equal(newSwapFeePercentage);
   })
 
   it("checks setting amm swap fee percentage reverts with invalid args", async() =>
@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
+import { blockTimestamp, expectRevert, increaseTime } from "@tempus-labs/utils/ts/utils/Utils";
+import { toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
+import { TempusPool } from "@tempus-sdk/tempus/TempusPool";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { PositionManager, MintedEvent } from "@tempus-sdk/tempus/PositionManager";
+import { LeverageIncentivization } from "@tempus-sdk/tempus/LeverageIncentivization";
+import { describeForEachPool, integrationExclusiveIt as it } from "../pool-utils/MultiPoolTestSuite";
+
+describeForEachPool("LeverageIncentivization Staking", (testPool:PoolTestFixture) =>
+{
+  const MONTH = 60 * 60 * 24 * 30;
+  const deadline = new Date(2594275590 * 1000);
+  let owner:Signer, user1:Signer;
+  let pool:TempusPool;
+  let positionManager:PositionManager;
+  let incentivization:LeverageIncentivization;
+
+  beforeEach(async () =>
+  {
+    pool = await testPool.createDefault();
+    [owner, user1] = testPool.signers;
+    await testPool.setupAccounts(owner, [[user1,/*ybt*/1000000]]);
+
+    await testPool.tempus.controller.depositYieldBearing(user1, pool, 200000, user1);
+    await testPool.amm.provideLiquidity(user1, 20000, 200000); // 10% rate
+
+    positionManager = await PositionManager.deploy(testPool.controller);
+    const rewardToken = await ERC20.deploy(
+      "ERC20FixedSupply", 18, 18, "Reward Token", "RWRD", toWei(1000)
+    );
+    incentivization = await LeverageIncentivization.deploy(positionManager, rewardToken, testPool.amm, /*maxEarlyWithdrawalFee*/0);
+    await incentivization.initializeRewards(owner, 1000, new Date((await blockTimestamp() + MONTH) * 1000));
+  });
+
+  async function mintLeveraged(): Promise<MintedEvent>
+  {
+    const tx = await positionManager.mint(user1, testPool, {
+      leverageMultiplier: 2,
+      tokenAmountToDeposit: 10,
+      worstAcceptableCapitalsRate: "9.0",
+      deadline: deadline,
+      recipient: user1,
+      isBackingToken: false
+    });
+    return positionManager.mintedEvent(tx, testPool);
+  }
+
+  it("staked position earns the whole incentive and can be unstaked", async () =>
+  {
+    const { tokenId, mintedShares } = await mintLeveraged();
+    await incentivization.stake(user1, positionManager, testPool, tokenId, mintedShares);
+    expect(await positionManager.ownerOf(tokenId)).to.equal(incentivization.address);
+    expect(+await incentivization.rewardRate()).to.be.closeTo(2 * 1000 / MONTH, 1e-6);
+
+    // rewards decrease linearly, so 3/4 of the incentive is distributed in the first half
+    await increaseTime(MONTH / 2);
+    expect(+await incentivization.earned(tokenId)).to.be.closeTo(750, 1);
+    expect(+await incentivization.rewardRate()).to.be.closeTo(1000 / MONTH, 1e-6);
+
+    await incentivization.claimRewards(user1, tokenId);
+    expect(+await incentivization.rewardsToken.balanceOf(user1)).to.be.closeTo(750, 1);
+
+    await increaseTime(MONTH);
+    await incentivization.unstake(user1, testPool, tokenId, {
+      maxLeftoverShares: "0.01", yieldsRate: "0.1", maxSlippage: 0.03, deadline: deadline, recipient: user1, toBackingToken: false
+    });
+    expect(+await incentivization.rewardsToken.balanceOf(user1)).to.be.closeTo(1000, 1);
+    expect(+(await positionManager.position(tokenId, pool)).capitals).to.equal(0);
+    expect(+await incentivization.rewardRate()).to.equal(0);
+  });
+
+  it("staking is blocked while paused", async () =>
+  {
+    const { tokenId, mintedShares } = await mintLeveraged();
+    await incentivization.pause(owner);
+    (await expectRevert(incentivization.stake(user1, positionManager, testPool, tokenId, mintedShares))).to.equal("Pausable: paused");
+
+    await incentivization.unpause(owner);
+    await incentivization.stake(user1, positionManager, testPool, tokenId, mintedShares);
+    expect(await positionManager.ownerOf(tokenId)).to.equal(incentivization.address);
+  });
+});
@@ -6,6 +6,7 @@ import { setEvmTime, evmSetAutomine, evmMine, blockTimestamp, expectRevert } fro
 import { describeNonPool } from "../pool-utils/MultiPoolTestSuite";
 import { ERC20 } from "@tempus-labs/utils/ts/token/ERC20";
 import { Numberish, toWei } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { projectRewards, projectRewardsOverTime, rewardRateAt } from "@tempus-sdk/tempus/StakingRewardsModel";
 
 
 interface StakingMathTestCase {
@@ -20,6 +21,15 @@ interface StakingMathTestCase {
   expectedTotalRewards: number;
 }
 
+const testCases: StakingMathTestCase[] = [
+  { totalIncentiveSize: 100001, rewardsDuration: 7776000, otherUsersStakedAmountSum: 500, userStakedAmount: 2000, userStakeStart: 4558, userStakeEnd: 61000, maxWithdrawalFee: 0, expectedTotalRewards: 1156.49463161651 },
+  { totalIncentiveSize: 66666666666, rewardsDuration: 1036800, otherUsersStakedAmountSum: 9000, userStakedAmount: 50, userStakeStart: 1000, userStakeEnd: 61000, maxWithdrawalFee: 0, expectedTotalRewards: 41356209.1882795 },
+  { totalIncentiveSize: 66666666666, rewardsDuration: 1036800, otherUsersStakedAmountSum: 9000, userStakedAmount: 50, userStakeStart: 1000, userStakeEnd: 61000, maxWithdrawalFee: 0.151234, expectedTotalRewards: 35469151.4005804 },
+  { totalIncentiveSize: 0.1, rewardsDuration: 536800, otherUsersStakedAmountSum: 1000, userStakedAmount: 100000, userStakeStart: 21000, userStakeEnd: 162500, maxWithdrawalFee: 0, expectedTotalRewards: 0.0432765599106137 },
+  { totalIncentiveSize: 10000, rewardsDuration: 15552123, otherUsersStakedAmountSum: 1234567, userStakedAmount: 12345, userStakeStart: 30002, userStakeEnd: 123456, maxWithdrawalFee: 0.151234, expectedTotalRewards: 1.006346163067 },
+  { totalIncentiveSize: 10000, rewardsDuration: 15552123, otherUsersStakedAmountSum: 0, userStakedAmount: 12345, userStakeStart: 123, userStakeEnd: 123456, maxWithdrawalFee: 0.451234, expectedTotalRewards: 87.257650335091 },
+];
+
 describeNonPool("StakingRewards", async () => {
   let stakingRewards: Contract;
   let rewardsToken: ERC20;
@@ -195,14 +205,6 @@ describeNonPool("StakingRewards", async () => {
   });
 
   describe("Math", async () => {
-    const testCases: StakingMathTestCase[] = [
-        { totalIncentiveSize: 100001, rewardsDuration: 7776000, otherUsersStakedAmountSum: 500, userStakedAmount: 2000, userStakeStart: 4558, userStakeEnd: 61000, maxWithdrawalFee: 0, expectedTotalRewards: 1156.49463161651 },
-        { totalIncentiveSize: 66666666666, rewardsDuration: 1036800, otherUsersStakedAmountSum: 9000, userStakedAmount: 50, userStakeStart: 1000, userStakeEnd: 61000, maxWithdrawalFee: 0, expectedTotalRewards: 41356209.1882795 },
-        { totalIncentiveSize: 66666666666, rewardsDuration: 1036800, otherUsersStakedAmountSum: 9000, userStakedAmount: 50, userStakeStart: 1000, userStakeEnd: 61000, maxWithdrawalFee: 0.151234, expectedTotalRewards: 35469151.4005804 },
-        { totalIncentiveSize: 0.1, rewardsDuration: 536800, otherUsersStakedAmountSum: 1000, userStakedAmount: 100000, userStakeStart: 21000, userStakeEnd: 162500, maxWithdrawalFee: 0, expectedTotalRewards: 0.0432765599106137 },
-        { totalIncentiveSize: 10000, rewardsDuration: 15552123, otherUsersStakedAmountSum: 1234567, userStakedAmount: 12345, userStakeStart: 30002, userStakeEnd: 123456, maxWithdrawalFee: 0.151234, expectedTotalRewards: 1.006346163067 },
-        { totalIncentiveSize: 10000, rewardsDuration: 15552123, otherUsersStakedAmountSum: 0, userStakedAmount: 12345, userStakeStart: 123, userStakeEnd: 123456, maxWithdrawalFee: 0.451234, expectedTotalRewards: 87.257650335091 },
-    ];
 
     for (let i = 0; i < testCases.length; i++) {
         const {
@@ -253,4 +255,57 @@ describeNonPool("StakingRewards", async () => {
         });
     }
   });
+
+  describe("Projection model", async () => {
+    for (let i = 0; i < testCases.length; i++) {
+        const testCase = testCases[i];
+        it(`projected rewards match case #${i + 1}`, async () =>
+        {
+            const MAX_ERROR = 0.0001; // 0.01%
+
+            const projection = projectRewards({
+                totalIncentiveSize: testCase.totalIncentiveSize,
+                rewardsDuration: testCase.rewardsDuration,
+                maxEarlyWithdrawalFee: testCase.maxWithdrawalFee,
+                otherStakedShares: testCase.otherUsersStakedAmountSum
+            }, { shares: testCase.userStakedAmount, start: testCase.userStakeStart, end: testCase.userStakeEnd });
+
+            const error = Math.abs(projection.netRewards.toNumber() / testCase.expectedTotalRewards - 1);
+            expect(error).to.be.lte(MAX_ERROR);
+            expect(projection.netRewards.add(projection.feeAmount).toString()).to.equal(projection.grossRewards.toString());
+        });
+    }
+
+    it("projected gross rewards equal on-chain earned rewards", async () => {
+        const rewards = "12345.6789101112";
+        await stakingRewards.setMaxEarlyWithdrawalFee(toWei(0.5));
+        await initializeStakingRewards(rewards, 60 * 60 * 24 * 7);
+        await stakingRewards.stake(toWei(10000), 1);
+        const stakeTime = await blockTimestamp();
+        await setEvmTime(stakeTime + 60 * 60 * 24 * 3);
+        await evmMine();
+
+        const startTime = (await stakingRewards.startTime()).toNumber();
+        const projection = projectRewards({
+            totalIncentiveSize: rewards,
+            rewardsDuration: (await stakingRewards.rewardsDuration()).toNumber(),
+            maxEarlyWithdrawalFee: 0.5,
+            otherStakedShares: 0
+        }, { shares: 10000, start: stakeTime - startTime, end: (await blockTimestamp()) - startTime });
+
+        expect(await stakingRewards.earned(1)).to.equal(toWei(projection.grossRewards.toString()));
+        expect(await stakingRewards.effectiveEarlyWithdrawalFee()).to.equal(toWei(projection.effectiveFee.toString()));
+    });
+
+    it("projection over time covers the whole stake window", async () => {
+        const params = { totalIncentiveSize: 1000, rewardsDuration: 1000, maxEarlyWithdrawalFee: 0.5, otherStakedShares: 100 };
+        const projections = projectRewardsOverTime(params, { shares: 100, start: 100, end: 2000 }, 300);
+
+        expect(projections.map(p => p.elapsed)).to.deep.equal([100, 400, 700, 1000, 1300, 1600, 1900, 2000]);
+        expect(+projections[0].grossRewards).to.be.closeTo(rewardRateAt(100, 1000, 1000).toNumber() / 2, 1e-9, "a single second of rewards, shared equally");
+        expect(+projections[3].effectiveFee).to.equal(0, "no fee after expiration");
+        expect(projections[7].netRewards.toString()).to.equal(projections[3].grossRewards.toString(), "no rewards after expiration");
+        expect(+rewardRateAt(1000, 1000, 1000)).to.equal(0);
+    });
+  });
 }); 
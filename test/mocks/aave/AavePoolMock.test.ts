@@ -2,7 +2,7 @@ import { expect } from "chai";
 import { Aave } from "../../protocols/Aave";
 import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { PoolType } from "@tempus-sdk/tempus/TempusPool";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool } from "../../pool-utils/MultiPoolTestSuite";
 
 describeForEachPool.type("AAVE Mock", [PoolType.Aave], async (testPool:PoolTestFixture) =>
@@ -3,7 +3,7 @@ import { Comptroller } from "../../protocols/Comptroller";
 import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
 import { PoolType } from "@tempus-sdk/tempus/TempusPool";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool } from "../../pool-utils/MultiPoolTestSuite";
 
 describeForEachPool.type("Compound Mock", [PoolType.Compound], async (testPool:PoolTestFixture) =>
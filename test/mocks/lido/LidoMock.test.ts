@@ -3,7 +3,7 @@ import { LidoMock } from "../../protocols/LidoMock";
 import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { expectRevert } from "@tempus-labs/utils/ts/utils/Utils";
 import { PoolType } from "@tempus-sdk/tempus/TempusPool";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { describeForEachPool, integrationExclusiveIt as it } from "../../pool-utils/MultiPoolTestSuite";
 
 describeForEachPool.type("Lido Mock", [PoolType.Lido], (testPool:PoolTestFixture) =>
@@ -1,6 +1,7 @@
-import { PoolTestFixture, TempusAMMParams } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture, TempusAMMParams } from "@tempus-sdk/testing/PoolTestFixture";
 import { ContractBase, Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { TempusPool, PoolType } from "@tempus-sdk/tempus/TempusPool";
+import { registerTestFixture } from "./TestFixtureRegistry";
 import { TokenInfo } from "./TokenInfo";
 import { Aave } from "../protocols/Aave";
 
@@ -32,3 +33,5 @@ export class AaveTestPool extends PoolTestFixture {
     });
   }
 }
+
+registerTestFixture(PoolType.Aave, (asset, yieldToken, integration) => new AaveTestPool(asset, yieldToken, integration));
@@ -1,6 +1,7 @@
-import { PoolTestFixture, TempusAMMParams } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture, TempusAMMParams } from "@tempus-sdk/testing/PoolTestFixture";
 import { ContractBase, Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { TempusPool, PoolType } from "@tempus-sdk/tempus/TempusPool";
+import { registerTestFixture } from "./TestFixtureRegistry";
 import { TokenInfo } from "./TokenInfo";
 import { Comptroller } from "../protocols/Comptroller";
 
@@ -34,3 +35,5 @@ export class CompoundTestPool extends PoolTestFixture {
     });
   }
 }
+
+registerTestFixture(PoolType.Compound, (asset, yieldToken, integration) => new CompoundTestPool(asset, yieldToken, integration));
@@ -1,6 +1,7 @@
-import { PoolTestFixture, TempusAMMParams } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture, TempusAMMParams } from "@tempus-sdk/testing/PoolTestFixture";
 import { ContractBase, Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { TempusPool, PoolType } from "@tempus-sdk/tempus/TempusPool";
+import { registerTestFixture } from "./TestFixtureRegistry";
 import { TokenInfo } from "./TokenInfo";
 import { ethers, getUnnamedAccounts } from "hardhat";
 import { LidoContract } from "../protocols/LidoContract";
@@ -54,3 +55,5 @@ export class LidoTestPool extends PoolTestFixture {
     });
   }
 }
+
+registerTestFixture(PoolType.Lido, (asset, yieldToken, integration) => new LidoTestPool(asset, yieldToken, integration));
@@ -1,10 +1,11 @@
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
-import { AaveTestPool } from "./AaveTestPool";
-import { LidoTestPool } from "./LidoTestPool";
-import { YearnTestPool } from "./YearnTestPool";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import "./AaveTestPool"; // registers test fixtures of the built-in pool adapters
+import "./LidoTestPool";
+import "./YearnTestPool";
+import "./CompoundTestPool";
 import { TokenInfo } from "./TokenInfo";
-import { CompoundTestPool } from "./CompoundTestPool";
 import { PoolType } from "@tempus-sdk/tempus/TempusPool";
+import { createTestFixture } from "./TestFixtureRegistry";
 import { Suite, TestFunction, Func, Test } from "mocha";
 import { 
   isIntegrationTestsEnabled, getOnlyRunPool, getOnlyRunToken, getTokens, ALL_POOLS
@@ -72,13 +73,7 @@ function _describeForEachPoolType(title:string, poolTypes:PoolType[], only:boole
 
       const describeTestBody = () =>
       {
-        let pool:PoolTestFixture;
-        switch (type) {
-          case PoolType.Aave:     pool = new AaveTestPool(asset, yieldToken, integration); break;
-          case PoolType.Lido:     pool = new LidoTestPool(asset, yieldToken, integration); break;
-          case PoolType.Compound: pool = new CompoundTestPool(asset, yieldToken, integration); break;
-          case PoolType.Yearn:    pool = new YearnTestPool(asset, yieldToken, integration); break;
-        }
+        const pool:PoolTestFixture = createTestFixture(type, asset, yieldToken, integration);
         fn(pool);
       };
 
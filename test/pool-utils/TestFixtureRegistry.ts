@@ -0,0 +1,26 @@
+import { PoolType } from "@tempus-sdk/tempus/PoolAdapter";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
+import { TokenInfo } from "./TokenInfo";
+
+export type TestFixtureFactory = (asset:TokenInfo, yieldToken:TokenInfo, integration:boolean) => PoolTestFixture;
+
+// Test fixture factories, keyed by PoolType
+const TEST_FIXTURES: { [type:string]: TestFixtureFactory } = {};
+
+/**
+ * Registers the test fixture of a pool adapter, backed by a mock (or mainnet fork) of the underlying protocol
+ */
+export function registerTestFixture(type:PoolType, createTestFixture:TestFixtureFactory): void {
+  TEST_FIXTURES[type] = createTestFixture;
+}
+
+/**
+ * Creates a test fixture of a PoolType with the factory registered by `registerTestFixture`
+ */
+export function createTestFixture(type:PoolType, asset:TokenInfo, yieldToken:TokenInfo, integration:boolean): PoolTestFixture {
+  const createFixture = TEST_FIXTURES[type];
+  if (!createFixture) {
+    throw new Error("No test fixture registered for PoolType " + type + ", call registerTestFixture() in test/pool-utils");
+  }
+  return createFixture(asset, yieldToken, integration);
+}
@@ -1,8 +1 @@
-
-export interface TokenInfo {
-    decimals:number;
-    name:string;
-    symbol:string;
-    totalSupply?:number;
-    deploymentName?:string; // name from git/deployments/mainnet/*.json
-}
+export { TokenInfo } from "@tempus-sdk/testing/PoolTestFixture";
@@ -1,6 +1,7 @@
-import { PoolTestFixture, TempusAMMParams } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture, TempusAMMParams } from "@tempus-sdk/testing/PoolTestFixture";
 import { ContractBase, Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { TempusPool, PoolType } from "@tempus-sdk/tempus/TempusPool";
+import { registerTestFixture } from "./TestFixtureRegistry";
 import { TokenInfo } from "./TokenInfo";
 import { YearnVault } from "../protocols/YearnVault";
 
@@ -32,3 +33,5 @@ export class YearnTestPool extends PoolTestFixture {
     });
   }
 }
+
+registerTestFixture(PoolType.Yearn, (asset, yieldToken, integration) => new YearnTestPool(asset, yieldToken, integration));
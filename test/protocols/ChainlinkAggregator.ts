@@ -0,0 +1,36 @@
+import { Contract } from "ethers";
+import { Numberish, formatDecimal, parseDecimal } from "@tempus-labs/utils/ts/utils/DecimalUtils";
+import { ContractBase } from "@tempus-labs/utils/ts/utils/ContractBase";
+
+/**
+ * Wrapper around ChainlinkAggregatorMock
+ */
+export class ChainlinkAggregator extends ContractBase {
+  constructor(aggregator:Contract, decimals:number) {
+    super("ChainlinkAggregatorMock", decimals, aggregator);
+  }
+
+  /**
+   * @param decimals Precision of the answer, eg 8 for USD pairs
+   * @param initialAnswer Initial price of the pair
+   */
+  static async create(decimals:number, initialAnswer:Numberish): Promise<ChainlinkAggregator> {
+    const aggregator = await ContractBase.deployContract("ChainlinkAggregatorMock", decimals, parseDecimal(initialAnswer, decimals));
+    return new ChainlinkAggregator(aggregator, decimals);
+  }
+
+  /**
+   * @return Price of the latest round
+   */
+  async latestAnswer(): Promise<Numberish> {
+    const [, answer] = await this.contract.latestRoundData();
+    return formatDecimal(answer, this.decimals);
+  }
+
+  /**
+   * Starts a new round with the given price
+   */
+  async setAnswer(answer:Numberish): Promise<void> {
+    await this.contract.setAnswer(parseDecimal(answer, this.decimals));
+  }
+}
@@ -2,10 +2,12 @@ import { expect } from "chai";
 import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
 import { TempusPool } from "@tempus-sdk/tempus/TempusPool";
 import { describeForEachPool } from "../pool-utils/MultiPoolTestSuite";
-import { PoolTestFixture } from "@tempus-sdk/tempus/PoolTestFixture";
+import { PoolTestFixture } from "@tempus-sdk/testing/PoolTestFixture";
 import { Stats } from "@tempus-sdk/tempus/Stats";
 import { TempusController } from "@tempus-sdk/tempus/TempusController";
 import { TempusPoolAMM } from "@tempus-sdk/tempus/TempusPoolAMM";
+import { tempusMarket } from "@tempus-sdk/tempus/TempusMarket";
+import { ChainlinkAggregator } from "../protocols/ChainlinkAggregator";
 
 describeForEachPool("Stats", (testPool:PoolTestFixture) =>
 {
@@ -34,38 +36,60 @@ describeForEachPool("Stats", (testPool:PoolTestFixture) =>
   
   it("Estimated Minted Shares returns expected values", async () =>
   {
-    expect(await stats.estimatedMintedShares(testPool, 10, /*BT*/false)).to.equal(10, "1x shares minting YBT with rate 1.0");
-    expect(await stats.estimatedMintedShares(testPool, 10, /*BT*/true )).to.equal(10, "1x shares minting BT with rate 1.0");
+    expect(+await stats.estimatedMintedShares(testPool, 10, /*BT*/false)).to.equal(10, "1x shares minting YBT with rate 1.0");
+    expect(+await stats.estimatedMintedShares(testPool, 10, /*BT*/true )).to.equal(10, "1x shares minting BT with rate 1.0");
 
     if (testPool.yieldPeggedToAsset)
     {
       await testPool.setInterestRate(2.0);
-      expect(await stats.estimatedMintedShares(testPool, 10, /*BT*/false)).to.equal(5, "0.5x shares minting YBT with rate 2.0");
-      expect(await stats.estimatedMintedShares(testPool, 10, /*BT*/true )).to.equal(5, "0.5x shares minting BT with rate 2.0");
+      expect(+await stats.estimatedMintedShares(testPool, 10, /*BT*/false)).to.equal(5, "0.5x shares minting YBT with rate 2.0");
+      expect(+await stats.estimatedMintedShares(testPool, 10, /*BT*/true )).to.equal(5, "0.5x shares minting BT with rate 2.0");
     }
     else
     {
       await testPool.setInterestRate(2.0);
-      expect(await stats.estimatedMintedShares(testPool, 10, /*BT*/false)).to.equal(10, "1x shares minting YBT with rate 2.0");
-      expect(await stats.estimatedMintedShares(testPool, 10, /*BT*/true )).to.equal(5, "0.5x shares minting BT with rate 2.0");
+      expect(+await stats.estimatedMintedShares(testPool, 10, /*BT*/false)).to.equal(10, "1x shares minting YBT with rate 2.0");
+      expect(+await stats.estimatedMintedShares(testPool, 10, /*BT*/true )).to.equal(5, "0.5x shares minting BT with rate 2.0");
     }
   });
 
+  it("Estimates accept a TempusPool and TempusPoolAMM pair instead of the test fixture", async () =>
+  {
+    await initAMM(user1, /*ybtDeposit*/1200, /*principals*/120, /*yields*/1200);
+    const market = tempusMarket(pool, amm);
+    expect((await stats.estimatedMintedShares(market, 10, /*BT*/false)).toString()).to.equal((await stats.estimatedMintedShares(testPool, 10, /*BT*/false)).toString());
+    expect((await stats.estimatedDepositAndFix(market, 10, /*BT*/false)).toString()).to.equal((await stats.estimatedDepositAndFix(testPool, 10, /*BT*/false)).toString());
+  });
+
+  it("TVL is reported in backing tokens and in the aggregator quote currency", async () =>
+  {
+    await controller.depositYieldBearing(user1, pool, 100, user1);
+    // at rate 1.0, 100 YBT mint 100 TPS+TYS worth exactly 100 BT
+    expect(+await stats.totalValueLockedInBackingTokens(pool)).to.be.closeTo(100, 1e-6);
+
+    const aggregator = await ChainlinkAggregator.create(/*decimals*/8, /*answer*/2000);
+    expect(+await stats.getRate(aggregator)).to.equal(2000);
+    expect(+await stats.totalValueLockedAtGivenRate(pool, aggregator)).to.be.closeTo(200000, 1e-3);
+
+    await aggregator.setAnswer(2500);
+    expect(+await stats.totalValueLocked([{ pool: pool, aggregator: aggregator }])).to.be.closeTo(250000, 1e-3);
+  });
+
   it("Estimated redeem returns expected values", async () =>
   {
-    expect(await stats.estimatedRedeem(testPool, 10, 10, /*BT*/false)).to.equal(10, "1x YBT redeeming ALL with rate 1.0");
-    expect(await stats.estimatedRedeem(testPool, 10, 10, /*BT*/true )).to.equal(10, "1x BT redeeming ALL with rate 1.0");
+    expect(+await stats.estimatedRedeem(testPool, 10, 10, /*BT*/false)).to.equal(10, "1x YBT redeeming ALL with rate 1.0");
+    expect(+await stats.estimatedRedeem(testPool, 10, 10, /*BT*/true )).to.equal(10, "1x BT redeeming ALL with rate 1.0");
 
     await testPool.setInterestRate(2.0);
     if (testPool.yieldPeggedToAsset)
     {
-      expect(await stats.estimatedRedeem(testPool, 10, 10, /*BT*/false)).to.equal(20, "2x YBT redeeming ALL with rate 2.0");
-      expect(await stats.estimatedRedeem(testPool, 10, 10, /*BT*/true )).to.equal(20, "2x BT redeeming ALL with rate 2.0");
+      expect(+await stats.estimatedRedeem(testPool, 10, 10, /*BT*/false)).to.equal(20, "2x YBT redeeming ALL with rate 2.0");
+      expect(+await stats.estimatedRedeem(testPool, 10, 10, /*BT*/true )).to.equal(20, "2x BT redeeming ALL with rate 2.0");
     }
     else
     {
-      expect(await stats.estimatedRedeem(testPool, 10, 10, /*BT*/false)).to.equal(10, "1x YBT redeeming ALL with rate 2.0");
-      expect(await stats.estimatedRedeem(testPool, 10, 10, /*BT*/true )).to.equal(20, "2x BT redeeming ALL with rate 2.0");
+      expect(+await stats.estimatedRedeem(testPool, 10, 10, /*BT*/false)).to.equal(10, "1x YBT redeeming ALL with rate 2.0");
+      expect(+await stats.estimatedRedeem(testPool, 10, 10, /*BT*/true )).to.equal(20, "2x BT redeeming ALL with rate 2.0");
     }
   });
 
@@ -74,8 +98,8 @@ describeForEachPool("Stats", (testPool:PoolTestFixture) =>
     await initAMM(user1, /*ybtDeposit*/1200, /*principals*/120, /*yields*/1200);
     const result = await stats.estimatedDepositAndProvideLiquidity(testPool, 10, /*BT*/false);
     expect(+result[0]).to.be.within(1.81, 1.82);
-    expect(result[1]).to.equal(9);
-    expect(result[2]).to.equal(0);
+    expect(+result[1]).to.equal(9);
+    expect(+result[2]).to.equal(0);
   });
 
   it("Estimated DepositAndFix returns expected values", async () =>
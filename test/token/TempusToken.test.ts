@@ -1,8 +1,11 @@
 import { ethers } from "hardhat";
 import { expect } from "chai";
-import { blockTimestamp, expectRevert, increaseTime } from "@tempus-labs/utils/ts/utils/Utils";
+import { blockTimestamp, evmMine, expectRevert, increaseTime, setEvmTime } from "@tempus-labs/utils/ts/utils/Utils";
 import { Signer } from "@tempus-labs/utils/ts/utils/ContractBase";
-import { TempusToken } from "@tempus-sdk/tempus/TempusToken";
+import { TempusToken, signDelegation } from "@tempus-sdk/tempus/TempusToken";
+import {
+  checkEmissionSchedule, mintExecutionTime, nextMint, populateEmissionSchedule, readMintingState
+} from "@tempus-sdk/tempus/TempusTokenMinting";
 import { DAY } from "@tempus-sdk/tempus/TempusAMM";
 import { describeNonPool } from "../pool-utils/MultiPoolTestSuite";
 
@@ -91,4 +94,142 @@ describeNonPool("Tempus Token", async () => {
       expect(+await token.totalSupply()).to.equal(initialSupply + firstMintAmount + secontMintAmount);
     });
   });
+
+  describe("Mint planning", async () =>
+  {
+    it("Next mint is limited by the initial lockup, time between mints and mint cap", async () =>
+    {
+      const state = await readMintingState(token);
+      const next = nextMint(state);
+      expect(next.time).to.equal(state.mintingAllowedAfter);
+      expect(+next.maxAmount).to.equal(2e7);
+
+      await setEvmTime(next.time);
+      await token.mint(owner, user1, next.maxAmount.toString());
+      const after = nextMint(await readMintingState(token));
+      expect(after.time).to.equal(+await token.lastMintingTime() + DAY * 365);
+      expect(+after.maxAmount).to.equal((1e9 + 2e7) * 0.02);
+    });
+
+    it("Emission schedule is checked with compounding mint caps", async () =>
+    {
+      const state = await readMintingState(token);
+      const start = state.mintingAllowedAfter;
+      const checks = checkEmissionSchedule(state, [
+        { time: start, recipient: user1, amount: 2e7 },
+        { time: start + DAY * 365, recipient: user1, amount: 2.04e7 }, // 2% of the increased supply
+        { time: start + DAY * 700, recipient: user1, amount: 1 },
+        { time: start + DAY * 730, recipient: user1, amount: 3e7 },
+        { time: start + DAY * 730, recipient: "0x0000000000000000000000000000000000000000", amount: 1 },
+      ]);
+
+      expect(checks.map(c => c.error)).to.deep.equal([
+        undefined, undefined, "Not enough time between mints.", "Mint cap limit.", "Can not mint to 0x0."
+      ]);
+      expect(+checks[1].totalSupplyAfter).to.equal(1e9 + 2e7 + 2.04e7);
+      expect(checks[2].earliestTime).to.equal(start + DAY * 730);
+      expect(() => populateEmissionSchedule(token, owner, state, checks.map(c => c.mint))).to.throw("mint #3");
+    });
+
+    it("Emission schedule transactions can be executed on time", async () =>
+    {
+      const state = await readMintingState(token);
+      const start = state.mintingAllowedAfter;
+      const scheduled = populateEmissionSchedule(token, owner, state, [
+        { time: start, recipient: user1, amount: 2e7 },
+        { time: start + DAY * 365, recipient: user2, amount: 2.04e7 },
+      ]);
+
+      expect(scheduled.map(s => s.executeAfter)).to.deep.equal([start, start + DAY * 365]);
+      for (const { executeAfter, transaction } of scheduled) {
+        await setEvmTime(executeAfter);
+        await owner.sendTransaction(transaction);
+      }
+      expect(+await token.balanceOf(user1)).to.equal(2e7);
+      expect(+await token.balanceOf(user2)).to.equal(2.04e7);
+    });
+
+    it("Emission schedule mints after a late mint wait for the time between mints", async () =>
+    {
+      const state = await readMintingState(token);
+      const start = state.mintingAllowedAfter;
+      const [first, second] = populateEmissionSchedule(token, owner, state, [
+        { time: start, recipient: user1, amount: 2e7 },
+        { time: start + DAY * 365, recipient: user2, amount: 2.04e7 },
+      ]);
+
+      expect(await mintExecutionTime(token, first)).to.equal(start);
+      await setEvmTime(start + DAY);
+      await owner.sendTransaction(first.transaction);
+
+      const executedAt = +await token.lastMintingTime();
+      expect(await mintExecutionTime(token, second)).to.equal(executedAt + DAY * 365);
+      await setEvmTime(second.executeAfter);
+      (await expectRevert(owner.sendTransaction(second.transaction))).to.equal("Not enough time between mints.");
+
+      await setEvmTime(await mintExecutionTime(token, second));
+      await owner.sendTransaction(second.transaction);
+      expect(+await token.balanceOf(user2)).to.equal(2.04e7);
+    });
+  });
+
+  describe("Governance", async () =>
+  {
+    it("Delegating gives voting power and records checkpoints", async () =>
+    {
+      await token.transfer(owner, user1, 1000);
+      expect(+await token.getVotes(user1)).to.equal(0, "undelegated tokens have no votes");
+
+      await token.delegate(user1, user1);
+      const delegateBlock = await ethers.provider.getBlockNumber();
+      await token.transfer(owner, user1, 500);
+      await evmMine();
+
+      expect(await token.delegates(user1)).to.equal(user1.address);
+      expect(+await token.getVotes(user1)).to.equal(1500);
+      expect(+await token.getPastVotes(user1, delegateBlock)).to.equal(1000);
+      expect(+await token.getPastTotalSupply(delegateBlock)).to.equal(1e9);
+
+      const checkpoints = await token.checkpoints(user1);
+      expect(checkpoints.map(c => +c.votes)).to.deep.equal([1000, 1500]);
+      expect(checkpoints[0].fromBlock).to.equal(delegateBlock);
+    });
+
+    it("Delegation signed offline can be submitted by anyone", async () =>
+    {
+      await token.transfer(owner, user1, 1000);
+      const expiry = new Date((await blockTimestamp() + DAY) * 1000);
+      const signature = await signDelegation(user1, await token.delegationDomain(), user2, /*nonce*/0, expiry);
+
+      await token.delegateBySig(owner, signature);
+      expect(await token.delegates(user1)).to.equal(user2.address);
+      expect(+await token.getVotes(user2)).to.equal(1000);
+      (await expectRevert(token.delegateBySig(owner, signature))).to.equal("ERC20Votes: invalid nonce");
+
+      const next = await token.createDelegationSignature(user1, user1, expiry);
+      expect(next.nonce).to.equal(1);
+      await token.delegateBySig(user2, next);
+      expect(+await token.getVotes(user1)).to.equal(1000);
+      expect(+await token.getVotes(user2)).to.equal(0);
+    });
+
+    it("Voting power snapshot lists delegates at a past block", async () =>
+    {
+      await token.transfer(owner, user1, 1000);
+      await token.transfer(owner, user2, 3000);
+      await token.delegate(user1, user1);
+      await token.delegate(user2, user1);
+      const snapshotBlock = await ethers.provider.getBlockNumber();
+      await token.delegate(user2, user2);
+      await evmMine();
+
+      const snapshot = await token.votingPowerSnapshot(snapshotBlock);
+      expect(snapshot.blockNumber).to.equal(snapshotBlock);
+      expect(+snapshot.totalSupply).to.equal(1e9);
+      expect(snapshot.delegates.map(d => [d.account, +d.votes])).to.deep.equal([[user1.address, 4000]]);
+
+      const latest = await token.votingPowerSnapshot(await ethers.provider.getBlockNumber() - 1);
+      expect(latest.delegates.map(d => [d.account, +d.votes])).to.deep.equal([[user2.address, 3000], [user1.address, 1000]]);
+    });
+  });
 });